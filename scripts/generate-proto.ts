@@ -0,0 +1,148 @@
+/**
+ * Generate the bundled schema descriptors and TypeScript types
+ *
+ * Loads every `proto/Proto <version>` folder from the proto submodule and
+ * writes `src/generated/proto-<version>.ts`, which `loadProtoDefinitions`
+ * uses so the library works without the submodule (e.g. when installed
+ * from npm). Types for every message and enum of the newest schema are
+ * written to `src/generated/types.ts`.
+ *
+ * Usage: npm run generate
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import protobuf from 'protobufjs';
+import { loadProtoFiles, LATEST_PROTO_VERSION } from '../src/lib/index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const protoRoot = path.resolve(__dirname, '../proto');
+const outDir = path.resolve(__dirname, '../src/generated');
+
+/** TypeScript types for protobuf scalars, as produced by `toObject` with `longs: String` */
+const SCALAR_TYPES: Record<string, string> = {
+  double: 'number', float: 'number',
+  int32: 'number', uint32: 'number', sint32: 'number', fixed32: 'number', sfixed32: 'number',
+  int64: 'number | string', uint64: 'number | string', sint64: 'number | string',
+  fixed64: 'number | string', sfixed64: 'number | string',
+  bool: 'boolean', string: 'string', bytes: 'Uint8Array',
+};
+
+function typeReference(field: protobuf.Field): string {
+  field.resolve();
+  if (field.resolvedType) {
+    // Fully qualified, e.g. rv.data.Graphics.Element
+    return field.resolvedType.fullName.replace(/^\./, '');
+  }
+  return SCALAR_TYPES[field.type] || 'unknown';
+}
+
+function fieldType(field: protobuf.Field): string {
+  if (field instanceof protobuf.MapField) {
+    return `{ [key: string]: ${typeReference(field)} }`;
+  }
+  const type = typeReference(field);
+  if (field.repeated) return `${type.includes(' ') ? `(${type})` : type}[]`;
+  // Unset fields of every kind are left out when decoding (see TO_OBJECT_OPTIONS)
+  return type;
+}
+
+/**
+ * Emit interfaces, enums and namespaces for a reflection object and its children
+ */
+function emitTypes(object: protobuf.ReflectionObject, indent: string, out: string[]): void {
+  if (object instanceof protobuf.Enum) {
+    out.push(`${indent}export enum ${object.name} {`);
+    for (const [name, value] of Object.entries(object.values)) {
+      out.push(`${indent}  ${name} = ${value},`);
+    }
+    out.push(`${indent}}`);
+    return;
+  }
+
+  if (object instanceof protobuf.Type) {
+    out.push(`${indent}export interface ${object.name} {`);
+    for (const field of object.fieldsArray) {
+      out.push(`${indent}  ${field.name}?: ${fieldType(field)};`);
+    }
+    out.push(`${indent}  /** Raw bytes of fields missing from the schema, see readPresentation */`);
+    out.push(`${indent}  $unknownFields?: Uint8Array[];`);
+    out.push(`${indent}}`);
+  }
+
+  const nested = (object as protobuf.Namespace).nestedArray || [];
+  const children = nested.filter(n => n instanceof protobuf.Type || n instanceof protobuf.Enum || n instanceof protobuf.Namespace);
+  if (children.length === 0) return;
+
+  out.push(`${indent}export namespace ${object.name} {`);
+  for (const child of children) {
+    emitTypes(child, indent + '  ', out);
+  }
+  out.push(`${indent}}`);
+}
+
+async function generateTypes(root: protobuf.Root, version: string): Promise<void> {
+  const out: string[] = [
+    `// Generated by scripts/generate-proto.ts from "proto/Proto ${version}" - do not edit`,
+    '',
+  ];
+  for (const child of root.nestedArray) {
+    emitTypes(child, '', out);
+  }
+  out.push('');
+
+  const outFile = path.join(outDir, 'types.ts');
+  await fs.writeFile(outFile, out.join('\n'));
+  console.log(`✓ types (${version}) → ${path.relative(process.cwd(), outFile)}`);
+}
+
+async function generate() {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(protoRoot);
+  } catch {
+    throw new Error(`${protoRoot} not found - run: git submodule update --init`);
+  }
+
+  const versions = entries
+    .map(name => /^Proto (.+)$/.exec(name)?.[1])
+    .filter((v): v is string => !!v)
+    .sort();
+
+  if (versions.length === 0) {
+    throw new Error(`No "Proto <version>" folders in ${protoRoot}`);
+  }
+
+  await fs.mkdir(outDir, { recursive: true });
+
+  for (const version of versions) {
+    const root = await loadProtoFiles(path.join(protoRoot, `Proto ${version}`));
+    const descriptor = JSON.stringify(root.toJSON(), null, 2);
+    const source = [
+      `// Generated by scripts/generate-proto.ts from "proto/Proto ${version}" - do not edit`,
+      '',
+      `import type { INamespace } from 'protobufjs';`,
+      '',
+      `const descriptor: INamespace = ${descriptor};`,
+      '',
+      'export default descriptor;',
+      '',
+    ].join('\n');
+
+    const outFile = path.join(outDir, `proto-${version}.ts`);
+    await fs.writeFile(outFile, source);
+    console.log(`✓ ${version} → ${path.relative(process.cwd(), outFile)}`);
+
+    if (version === LATEST_PROTO_VERSION) {
+      await generateTypes(root, version);
+    }
+  }
+}
+
+generate().catch(err => {
+  console.error('Error:', err.message);
+  process.exit(1);
+});
@@ -8,29 +8,216 @@
 import { Command } from 'commander';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import YAML from 'yaml';
 import {
   readPresentation,
   writePresentation,
   readPlaylist,
+  writePlaylist,
+  getPlaylist,
+  getPlaylistItems,
+  listPlaylistItems,
+  readPlaylistItemPresentation,
+  buildPlaylist,
+  readWorkspace,
+  abbreviateGroupName,
+  getArrangements,
+  findArrangement,
+  getSelectedArrangement,
+  expandArrangement,
+  createArrangement,
+  setArrangementGroups,
+  renameArrangement,
+  deleteArrangement,
+  selectArrangement,
+  transposePresentation,
+  createPresentation,
+  parseChordPro,
+  parseLyrics,
+  parseOpenLyrics,
+  toOpenLyrics,
+  parseSongSelect,
+  isSongSelect,
+  readPro6,
+  getPresentationKey,
+  parseChord,
+  formatChord,
+  isNoChord,
+  renderChordsOverLyrics,
+  CHORD_NOTATIONS,
+  summarizeWorkspace,
   getPresentationSummary,
   getCuesByGroup,
+  getSongSections,
+  formatSectionName,
   getCueText,
   setCueText,
   getCues,
   rtfToText,
   getCueChords,
+  getCueTextBlocks,
   getCueNotes,
   getMultiTracksInfo,
   formatCCLI,
   getMusicKey,
+  getCueSlide,
+  getSlideElements,
+  listSlideElements,
+  getCueElementText,
+  setCueElementText,
+  validateFile,
+  lintPresentation,
+  diffPresentations,
+  formatPresentationDiff,
+  setDefaultProtoVersion,
+  setProtoDirectory,
+  PROTO_VERSIONS,
+  readFileVersion,
+  formatFileVersion,
+  type ElementRef,
+  type Presentation,
+  type Cue,
+  type Arrangement,
+  type PlaylistItem,
+  type PlaylistItemSummary,
+  type ServiceOrder,
+  type ChordNotation,
+  type LyricsImportOptions,
+  type OpenLyricsImportOptions,
+  type CreatePresentationOptions,
+  type LintReport,
 } from './lib/index.js';
 
 const program = new Command();
 
+/**
+ * Parse an --element value: digits select by index (or by name when out of
+ * range), anything else by name
+ */
+function parseElementRef(value: string): ElementRef {
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+}
+
+/**
+ * Collect the values of a repeatable option
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Sections of a song in sung order as [label, cues] pairs, e.g. ['Chorus x2', cues]
+ */
+function songOrder(presentation: Presentation, arrangement?: string | false): [string, Cue[]][] {
+  return getSongSections(presentation, { arrangement }).map(section => [formatSectionName(section), section.cues]);
+}
+
+/**
+ * Output formats of the export command
+ */
+const EXPORT_FORMATS = ['ccli-report', 'lyrics-txt', 'markdown', 'openlyrics'];
+
+/**
+ * Export formats that hold one song per file, so can't cover a playlist
+ */
+const SONG_ONLY_FORMATS = ['openlyrics'];
+
+/**
+ * Render a presentation in one of the export formats
+ */
+function renderPresentation(presentation: Presentation, format: string, arrangement?: string | false): string {
+  let output = '';
+
+  switch (format) {
+    case 'ccli-report': {
+      // Format for CCLI reporting
+      const ccli = presentation.ccli;
+      output = [
+        `Song Title: ${ccli?.songTitle || presentation.name || 'Unknown'}`,
+        `Author: ${ccli?.author || 'Unknown'}`,
+        `CCLI Number: ${ccli?.songNumber || 'N/A'}`,
+        `Publisher: ${ccli?.publisher || 'N/A'}`,
+        `Copyright Year: ${ccli?.copyrightYear || 'N/A'}`,
+        '',
+        '---',
+        '',
+        'Lyrics:',
+      ].join('\n');
+      
+      const sections = songOrder(presentation, arrangement);
+      for (const [groupName, cues] of sections) {
+        output += `\n[${groupName}]\n`;
+        for (const cue of cues) {
+          output += getCueText(cue) + '\n\n';
+        }
+      }
+      break;
+    }
+    
+    case 'lyrics-txt': {
+      // Plain text lyrics
+      const sections = songOrder(presentation, arrangement);
+      for (const [groupName, cues] of sections) {
+        output += `[${groupName}]\n`;
+        for (const cue of cues) {
+          output += getCueText(cue) + '\n\n';
+        }
+      }
+      break;
+    }
+    
+    case 'markdown': {
+      // Markdown format
+      const ccli = presentation.ccli;
+      output = `# ${ccli?.songTitle || presentation.name || 'Untitled'}\n\n`;
+      
+      if (ccli?.author) output += `**Author:** ${ccli.author}\n`;
+      if (ccli?.songNumber) output += `**CCLI:** ${ccli.songNumber}\n`;
+      
+      const musicKey = getMusicKey(presentation);
+      if (musicKey.current) output += `**Key:** ${musicKey.current}\n`;
+      
+      output += '\n---\n\n';
+      
+      const sections = songOrder(presentation, arrangement);
+      for (const [groupName, cues] of sections) {
+        output += `## ${groupName}\n\n`;
+        for (const cue of cues) {
+          const text = getCueText(cue);
+          const chords = getCueChords(cue);
+          
+          if (chords.length > 0) {
+            output += `*Chords: ${chords.map(c => c.chord).join(' ')}*\n\n`;
+          }
+          
+          output += text.split('\n').map(l => `> ${l}`).join('\n') + '\n\n';
+        }
+      }
+      break;
+    }
+    
+    case 'openlyrics':
+      output = toOpenLyrics(presentation, { arrangement });
+      break;
+    
+    default:
+      throw new Error(`Unknown format: ${format}`);
+  }
+
+  return output;
+}
+
 program
   .name('propresenter')
   .description('CLI tools for working with ProPresenter 7+ files')
-  .version('0.1.0');
+  .version('0.1.0')
+  .option('--proto-version <version>', `Proto schema version: ${['auto', ...PROTO_VERSIONS].join(', ')} (default: auto)`)
+  .option('--proto-dir <dir>', 'Load .proto files from this directory instead of the bundled schemas')
+  .hook('preAction', () => {
+    const { protoVersion, protoDir } = program.opts();
+    if (protoVersion) setDefaultProtoVersion(protoVersion);
+    if (protoDir) setProtoDirectory(protoDir);
+  });
 
 // ============================================================================
 // dump - Output presentation as JSON
@@ -39,7 +226,7 @@ program
 program
   .command('dump')
   .description('Dump a ProPresenter file as JSON')
-  .argument('<file>', 'ProPresenter file (.pro or .proplaylist)')
+  .argument('<file>', 'ProPresenter file (.pro, .proplaylist or .proworkspace)')
   .option('-p, --pretty', 'Pretty print JSON', true)
   .option('-o, --output <file>', 'Output file (default: stdout)')
   .action(async (file: string, options: { pretty?: boolean; output?: string }) => {
@@ -50,6 +237,8 @@ program
         data = await readPresentation(file);
       } else if (file.endsWith('.proplaylist')) {
         data = await readPlaylist(file);
+      } else if (file.endsWith('.proworkspace')) {
+        data = await readWorkspace(file);
       } else {
         // Try as presentation
         data = await readPresentation(file);
@@ -87,9 +276,11 @@ program
   .action(async (file: string, options: { verbose?: boolean }) => {
     try {
       const presentation = await readPresentation(file);
+      const fileVersion = await readFileVersion(file);
       
       console.log(`\n📄 ${presentation.name || 'Untitled'}`);
       console.log('─'.repeat(50));
+      console.log(formatFileVersion(fileVersion));
       
       if (presentation.category) {
         console.log(`Category: ${presentation.category}`);
@@ -184,18 +375,21 @@ program
   .argument('<file>', 'ProPresenter presentation file (.pro)')
   .option('-g, --group <name>', 'Filter by group name')
   .option('-f, --full', 'Show full text (not truncated)')
-  .action(async (file: string, options: { group?: string; full?: boolean }) => {
+  .option('-a, --arrangement <name>', 'Arrangement to follow (default: the selected one)')
+  .option('--no-arrangement', 'Show each group once, in group order')
+  .action(async (file: string, options: { group?: string; full?: boolean; arrangement?: string | false }) => {
     try {
       const presentation = await readPresentation(file);
-      const byGroup = getCuesByGroup(presentation);
+      const sections = getSongSections(presentation, { arrangement: options.arrangement });
       
-      for (const [groupName, cues] of byGroup) {
-        if (options.group && groupName.toLowerCase() !== options.group.toLowerCase()) {
+      for (const section of sections) {
+        if (options.group && section.name.toLowerCase() !== options.group.toLowerCase()) {
           continue;
         }
         
-        console.log(`\n=== ${groupName} ===`);
+        console.log(`\n=== ${formatSectionName(section)} ===`);
         
+        const cues = section.cues;
         for (let i = 0; i < cues.length; i++) {
           const text = getCueText(cues[i]);
           const display = options.full ? text : text.slice(0, 100).replace(/\n/g, ' | ');
@@ -217,14 +411,16 @@ program
   .description('Extract all text from a presentation')
   .argument('<file>', 'ProPresenter presentation file (.pro)')
   .option('-o, --output <file>', 'Output file (default: stdout)')
-  .action(async (file: string, options: { output?: string }) => {
+  .option('-a, --arrangement <name>', 'Arrangement to follow (default: the selected one)')
+  .option('--no-arrangement', 'Show each group once, in group order')
+  .action(async (file: string, options: { output?: string; arrangement?: string | false }) => {
     try {
       const presentation = await readPresentation(file);
-      const byGroup = getCuesByGroup(presentation);
+      const sections = songOrder(presentation, options.arrangement);
       
       const lines: string[] = [];
       
-      for (const [groupName, cues] of byGroup) {
+      for (const [groupName, cues] of sections) {
         lines.push(`[${groupName}]`);
         for (const cue of cues) {
           const text = getCueText(cue);
@@ -259,9 +455,10 @@ program
   .argument('<file>', 'ProPresenter presentation file (.pro)')
   .requiredOption('-c, --cue <index>', 'Cue index to edit (0-based)')
   .requiredOption('-t, --text <text>', 'New text for the slide')
+  .option('-e, --element <name|index>', 'Element to edit (default: first text element)')
   .option('-o, --output <file>', 'Output file (default: overwrite input)')
   .option('--dry-run', 'Show what would change without writing')
-  .action(async (file: string, options: { cue: string; text: string; output?: string; dryRun?: boolean }) => {
+  .action(async (file: string, options: { cue: string; text: string; element?: string; output?: string; dryRun?: boolean }) => {
     try {
       const presentation = await readPresentation(file);
       const cues = getCues(presentation);
@@ -273,20 +470,25 @@ program
       }
       
       const cue = cues[cueIndex];
-      const oldText = getCueText(cue);
+      const element = options.element !== undefined ? parseElementRef(options.element) : undefined;
+      const oldText = element !== undefined ? getCueElementText(cue, element) : getCueText(cue);
+      // Allow "\n" on the command line for line breaks
+      const newText = options.text.replace(/\\n/g, '\n');
       
-      console.log(`Cue ${cueIndex}:`);
+      console.log(`Cue ${cueIndex}${element !== undefined ? `, element ${element}` : ''}:`);
       console.log(`  Old text: ${oldText.slice(0, 50)}${oldText.length > 50 ? '...' : ''}`);
-      console.log(`  New text: ${options.text.slice(0, 50)}${options.text.length > 50 ? '...' : ''}`);
+      console.log(`  New text: ${newText.slice(0, 50)}${newText.length > 50 ? '...' : ''}`);
       
       if (options.dryRun) {
         console.log('\n(dry run - no changes written)');
         return;
       }
       
-      const success = setCueText(cue, options.text);
+      const success = element !== undefined
+        ? setCueElementText(cue, element, newText)
+        : setCueText(cue, newText);
       if (!success) {
-        console.error('Error: Could not find text element in cue');
+        console.error(`Error: Could not find ${element !== undefined ? `text element "${element}"` : 'text element'} in cue`);
         process.exit(1);
       }
       
@@ -299,6 +501,167 @@ program
     }
   });
 
+// ============================================================================
+// elements - List slide elements
+// ============================================================================
+
+program
+  .command('elements')
+  .description('List the elements on each slide with their names and bounds')
+  .argument('<file>', 'ProPresenter presentation file (.pro)')
+  .option('-c, --cue <index>', 'Specific cue index (default: all)')
+  .action(async (file: string, options: { cue?: string }) => {
+    try {
+      const presentation = await readPresentation(file);
+      const cues = getCues(presentation);
+      
+      const indices = options.cue !== undefined 
+        ? [parseInt(options.cue, 10)]
+        : cues.map((_, i) => i);
+      
+      for (const i of indices) {
+        if (i < 0 || i >= cues.length) continue;
+        
+        const slide = getCueSlide(cues[i]);
+        if (!slide) continue;
+        
+        console.log(`\n=== Cue ${i}: ${cues[i].name || 'unnamed'} ===`);
+        for (const element of listSlideElements(slide)) {
+          const b = element.bounds;
+          const bounds = b ? `${b.origin?.x ?? 0},${b.origin?.y ?? 0} ${b.size?.width ?? 0}x${b.size?.height ?? 0}` : 'no bounds';
+          const name = element.hasText && element.name === element.text ? '(text)' : element.name || 'unnamed';
+          console.log(`  [${element.index}] ${name}  @ ${bounds}`);
+          if (element.hasText) {
+            console.log(`      ${element.text.slice(0, 60).replace(/\n/g, ' | ')}${element.text.length > 60 ? '...' : ''}`);
+          }
+        }
+      }
+    } catch (err: any) {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// arrange - Show or edit arrangements
+// ============================================================================
+
+program
+  .command('arrange')
+  .description('Show or edit the arrangements (group order) of a presentation')
+  .argument('<file>', 'ProPresenter presentation file (.pro)')
+  .argument('[groups...]', 'Group order: names, abbreviations (V1, C, B) or UUIDs')
+  .option('-n, --name <name>', 'Arrangement to create or change')
+  .option('-s, --select', 'Make the arrangement the one ProPresenter shows')
+  .option('--rename <name>', 'Rename the arrangement')
+  .option('--delete', 'Delete the arrangement')
+  .option('-o, --output <file>', 'Output file (default: overwrite input)')
+  .action(async (file: string, groups: string[], options: { name?: string; select?: boolean; rename?: string; delete?: boolean; output?: string }) => {
+    try {
+      const presentation = await readPresentation(file);
+      const editing = groups.length > 0 || options.select || options.rename !== undefined || options.delete;
+
+      if (!options.name) {
+        if (editing) {
+          console.error('Error: --name is required to change an arrangement');
+          process.exit(1);
+        }
+
+        const groupNames = (presentation.cueGroups || []).map(g => g.group?.name || 'Unnamed');
+        console.log(`\nGroups: ${groupNames.map(n => `${n} (${abbreviateGroupName(n)})`).join(', ')}`);
+
+        const selected = getSelectedArrangement(presentation);
+        const arrangements = getArrangements(presentation);
+        console.log('\nArrangements:');
+        if (arrangements.length === 0) console.log('  (none)');
+        for (const arrangement of arrangements) {
+          const order = expandArrangement(presentation, arrangement).map(s => s.name);
+          console.log(`${arrangement === selected ? '▶' : ' '} ${arrangement.name || 'Unnamed'}: ${order.join(' → ')}`);
+        }
+        console.log('');
+        return;
+      }
+
+      let arrangementName = options.name;
+      const existing = findArrangement(presentation, arrangementName);
+
+      if (!existing && !groups.length) {
+        console.error(`Error: Arrangement not found: ${arrangementName}`);
+        process.exit(1);
+      }
+
+      if (options.delete) {
+        if (!deleteArrangement(presentation, arrangementName)) {
+          console.error(`Error: Arrangement not found: ${arrangementName}`);
+          process.exit(1);
+        }
+        console.log(`Deleted arrangement "${arrangementName}"`);
+      } else {
+        if (groups.length > 0) {
+          if (existing) {
+            setArrangementGroups(presentation, arrangementName, groups);
+          } else {
+            createArrangement(presentation, arrangementName, groups);
+          }
+        }
+        if (options.rename !== undefined) {
+          renameArrangement(presentation, arrangementName, options.rename);
+          arrangementName = options.rename;
+        }
+        if (options.select) {
+          selectArrangement(presentation, arrangementName);
+        }
+
+        const arrangement = findArrangement(presentation, arrangementName)!;
+        const order = expandArrangement(presentation, arrangement).map(s => s.name);
+        console.log(`${arrangement.name}: ${order.join(' → ')}`);
+
+        if (!editing) return;
+      }
+
+      const outputPath = options.output || file;
+      await writePresentation(outputPath, presentation);
+      console.log(`\nWritten to ${outputPath}`);
+    } catch (err: any) {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// transpose - Change the key of a presentation
+// ============================================================================
+
+program
+  .command('transpose')
+  .description('Transpose the chords of a presentation to another key')
+  .argument('<file>', 'ProPresenter presentation file (.pro)')
+  .argument('<key>', 'Target key, e.g. G, Bb, F#')
+  .option('--from <key>', 'Current key, if the presentation doesn\'t record one')
+  .option('-o, --output <file>', 'Output file (default: overwrite input)')
+  .option('--dry-run', 'Show what would change without writing')
+  .action(async (file: string, key: string, options: { from?: string; output?: string; dryRun?: boolean }) => {
+    try {
+      const presentation = await readPresentation(file);
+      const result = transposePresentation(presentation, key, { fromKey: options.from });
+
+      console.log(`Transposed from ${result.fromKey} to ${result.toKey} (+${result.semitones} semitones)`);
+      console.log(`${result.chordsChanged} chords changed`);
+
+      if (options.dryRun) {
+        console.log('\n(dry run - no changes written)');
+        return;
+      }
+
+      const outputPath = options.output || file;
+      await writePresentation(outputPath, presentation);
+      console.log(`\nWritten to ${outputPath}`);
+    } catch (err: any) {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
 // ============================================================================
 // chords - Extract chord chart
 // ============================================================================
@@ -307,51 +670,77 @@ program
   .command('chords')
   .description('Extract chord chart from a presentation')
   .argument('<file>', 'ProPresenter presentation file (.pro)')
-  .option('-f, --format <format>', 'Output format: text, chordpro', 'text')
-  .action(async (file: string, options: { format: string }) => {
+  .option('-f, --format <format>', 'Output format: text (chords over lyrics), chordpro', 'text')
+  .option('-n, --notation <notation>', `Chord notation: ${CHORD_NOTATIONS.join(', ')}`, 'letters')
+  .option('-k, --key <key>', 'Key to number chords against (default: the presentation\'s key)')
+  .option('-o, --output <file>', 'Output file (default: stdout)')
+  .option('-a, --arrangement <name>', 'Arrangement to follow (default: the selected one)')
+  .option('--no-arrangement', 'Show each group once, in group order')
+  .action(async (file: string, options: { format: string; notation: string; key?: string; output?: string; arrangement?: string | false }) => {
     try {
+      const notation = options.notation as ChordNotation;
+      if (!CHORD_NOTATIONS.includes(notation)) {
+        throw new Error(`Unknown notation: ${options.notation} (use ${CHORD_NOTATIONS.join(', ')})`);
+      }
+
       const presentation = await readPresentation(file);
-      const byGroup = getCuesByGroup(presentation);
+      const sections = songOrder(presentation, options.arrangement);
+      const lines: string[] = [];
       
-      const musicKey = getMusicKey(presentation);
-      if (musicKey.current) {
-        console.log(`Key: ${musicKey.current}\n`);
+      const key = options.key || getPresentationKey(presentation);
+      if (notation !== 'letters' && !key) {
+        throw new Error(`Presentation has no key; pass one with --key to use ${notation} notation`);
+      }
+      if (key) {
+        lines.push(`Key: ${key}`, '');
       }
+
+      // Chords that don't parse are shown as written and listed at the end
+      const unparseable: string[] = [];
+      const chordName = (chord: string, groupName: string) => {
+        const parsed = parseChord(chord);
+        if (parsed) return formatChord(parsed, notation, key || undefined);
+        if (!isNoChord(chord)) unparseable.push(`"${chord}" in ${groupName}`);
+        return chord;
+      };
       
-      for (const [groupName, cues] of byGroup) {
-        console.log(`[${groupName}]`);
+      for (const [groupName, cues] of sections) {
+        lines.push(`[${groupName}]`);
         
         for (const cue of cues) {
-          const text = getCueText(cue);
-          const chords = getCueChords(cue);
-          
-          if (options.format === 'chordpro') {
-            // Output ChordPro format
-            let output = text;
-            // Insert chords at positions (work backwards to preserve positions)
-            const sortedChords = [...chords].sort((a, b) => b.position.start - a.position.start);
-            for (const chord of sortedChords) {
-              const pos = chord.position.start;
-              output = output.slice(0, pos) + `[${chord.chord}]` + output.slice(pos);
-            }
-            console.log(output);
-          } else {
-            // Plain text with chord line above
-            if (chords.length > 0) {
-              // Build chord line
-              const lines = text.split('\n');
-              for (const line of lines) {
-                const lineChords = chords.filter(c => c.position.start < text.indexOf(line) + line.length);
-                if (lineChords.length > 0) {
-                  console.log(`  ${lineChords.map(c => c.chord).join('  ')}`);
-                }
-                console.log(line);
+          for (const block of getCueTextBlocks(cue)) {
+            const text = block.text;
+            const chords = block.chords.map(c => ({ ...c, chord: chordName(c.chord, groupName) }));
+
+            if (options.format === 'chordpro') {
+              // Output ChordPro format
+              let output = text;
+              // Insert chords at positions (work backwards to preserve positions)
+              const sortedChords = [...chords].sort((a, b) => b.position.start - a.position.start);
+              for (const chord of sortedChords) {
+                const pos = Math.min(chord.position.start, text.length);
+                output = output.slice(0, pos) + `[${chord.chord}]` + output.slice(pos);
               }
+              lines.push(output);
             } else {
-              console.log(text);
+              lines.push(renderChordsOverLyrics(text, chords));
             }
           }
-          console.log('');
+          lines.push('');
+        }
+      }
+
+      if (options.output) {
+        await fs.writeFile(options.output, lines.join('\n'));
+        console.log(`Written to ${options.output}`);
+      } else {
+        console.log(lines.join('\n'));
+      }
+
+      if (unparseable.length > 0) {
+        console.error(`⚠️  ${unparseable.length} unparseable chord(s):`);
+        for (const entry of unparseable) {
+          console.error(`   ${entry}`);
         }
       }
     } catch (err: any) {
@@ -384,23 +773,20 @@ program
         const cue = cues[i];
         console.log(`\n=== Cue ${i} ===`);
         
-        for (const action of cue.actions || []) {
-          if (action.slide?.presentation) {
-            for (const element of action.slide.presentation.elements || []) {
-              if (element.element?.text?.rtfData) {
-                const rtfData = element.element.text.rtfData;
-                const rtfString = Buffer.isBuffer(rtfData) 
-                  ? rtfData.toString('utf-8')
-                  : Buffer.from(rtfData).toString('utf-8');
-                
-                console.log(`\nElement: ${element.element.name || 'unnamed'}`);
-                console.log('--- Raw RTF ---');
-                console.log(rtfString.slice(0, 500));
-                if (rtfString.length > 500) console.log('...(truncated)');
-                console.log('\n--- Extracted Text ---');
-                console.log(rtfToText(rtfData));
-              }
-            }
+        const slide = getCueSlide(cue);
+        for (const element of slide ? getSlideElements(slide) : []) {
+          if (element.element?.text?.rtfData) {
+            const rtfData = element.element.text.rtfData;
+            const rtfString = Buffer.isBuffer(rtfData) 
+              ? rtfData.toString('utf-8')
+              : Buffer.from(rtfData).toString('utf-8');
+            
+            console.log(`\nElement: ${element.element.name || 'unnamed'}`);
+            console.log('--- Raw RTF ---');
+            console.log(rtfString.slice(0, 500));
+            if (rtfString.length > 500) console.log('...(truncated)');
+            console.log('\n--- Extracted Text ---');
+            console.log(rtfToText(rtfData));
           }
         }
       }
@@ -416,35 +802,342 @@ program
 
 program
   .command('validate')
-  .description('Validate that a file can be read and round-tripped')
+  .description('Validate that a file can be read and round-tripped without loss')
   .argument('<file>', 'ProPresenter file to validate')
-  .action(async (file: string) => {
+  .option('--json', 'Output a machine-readable JSON report')
+  .action(async (file: string, options: { json?: boolean }) => {
     try {
+      const report = await validateFile(file);
+      
+      if (options.json) {
+        console.log(JSON.stringify(report, (key, value) => {
+          // Buffers arrive here already converted by Buffer#toJSON
+          if (value && value.type === 'Buffer' && Array.isArray(value.data)) {
+            return Buffer.from(value.data).toString('base64');
+          }
+          return value;
+        }, 2));
+        if (!report.lossless) process.exit(1);
+        return;
+      }
+      
       console.log(`Reading ${file}...`);
-      const presentation = await readPresentation(file);
-      console.log(`✓ Read successfully`);
-      console.log(`  Name: ${presentation.name}`);
-      console.log(`  Cues: ${presentation.cues?.length || 0}`);
-      console.log(`  Groups: ${presentation.cueGroups?.length || 0}`);
-      
-      // Try to verify it could be written back
-      const { getMessageType } = await import('./lib/index.js');
-      const PresentationType = await getMessageType('rv.data.Presentation');
-      const errMsg = PresentationType.verify(presentation);
-      
-      if (errMsg) {
-        console.log(`⚠ Validation warning: ${errMsg}`);
+      console.log(`✓ Decoded as ${report.messageType} (${report.originalSize} bytes, schema ${report.protoVersion})`);
+      
+      if (report.verifyError) {
+        console.log(`⚠ Validation warning: ${report.verifyError}`);
       } else {
         console.log(`✓ Structure validates`);
       }
       
-      console.log('\n✓ File is valid');
+      if (report.bytesIdentical) {
+        console.log(`✓ Re-encoded bytes are identical`);
+      } else {
+        console.log(`⚠ Re-encoded bytes differ (${report.originalSize} → ${report.encodedSize} bytes)`);
+      }
+      
+      if (report.differences.length === 0) {
+        console.log(`✓ No field differences after round trip`);
+      } else {
+        console.log(`✗ ${report.differences.length} field difference(s) after round trip:`);
+        for (const diff of report.differences.slice(0, 20)) {
+          console.log(`    ${diff.path}: ${JSON.stringify(diff.before)} → ${JSON.stringify(diff.after)}`);
+        }
+        if (report.differences.length > 20) console.log(`    ...and ${report.differences.length - 20} more`);
+      }
+      
+      if (report.unknownFields.length > 0) {
+        console.log(`ℹ ${report.unknownFields.length} field(s) not in the schema`);
+      }
+      if (report.unknownFieldsLost.length > 0) {
+        console.log(`✗ ${report.unknownFieldsLost.length} unknown field(s) lost on write:`);
+        for (const field of report.unknownFieldsLost.slice(0, 20)) {
+          console.log(`    ${field.path || '(root)'} #${field.fieldNumber} (wire type ${field.wireType}, ${field.bytes.length} bytes)`);
+        }
+      }
+      
+      if (report.lossless) {
+        console.log('\n✓ File is valid and round-trips without loss');
+      } else {
+        console.log('\n✗ File would lose data if written by this library');
+        process.exit(1);
+      }
     } catch (err: any) {
       console.error(`✗ Error: ${err.message}`);
       process.exit(1);
     }
   });
 
+// ============================================================================
+// lint - Check presentation structure
+// ============================================================================
+
+program
+  .command('lint')
+  .description('Check presentations for broken references, bad UUIDs and out-of-range text attributes')
+  .argument('<files...>', 'ProPresenter presentation files (.pro)')
+  .option('--fix', 'Repair what can safely be repaired and save the files')
+  .option('--json', 'Output a machine-readable JSON report')
+  .action(async (files: string[], options: { fix?: boolean; json?: boolean }) => {
+    const reports: ({ file: string } & LintReport)[] = [];
+    let failed = false;
+
+    for (const file of files) {
+      try {
+        const presentation = await readPresentation(file);
+        const report = lintPresentation(presentation, { fix: options.fix });
+        if (report.fixed > 0) await writePresentation(file, presentation);
+        reports.push({ file, ...report });
+
+        // Errors left after fixing fail the run
+        if (report.issues.some(issue => issue.severity === 'error' && !issue.fixed)) failed = true;
+      } catch (err: any) {
+        console.error(`✗ Error: ${file}: ${err.message}`);
+        failed = true;
+      }
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(reports, null, 2));
+    } else {
+      for (const report of reports) {
+        if (report.issues.length === 0) {
+          console.log(`✓ ${report.file}: no problems`);
+          continue;
+        }
+        console.log(`${report.file}: ${report.errors} error(s), ${report.warnings} warning(s)`);
+        for (const issue of report.issues) {
+          const mark = issue.fixed ? '✓' : issue.severity === 'error' ? '✗' : '⚠';
+          const note = issue.fixed ? ' (fixed)' : issue.fixable ? ' (fixable with --fix)' : '';
+          console.log(`  ${mark} ${issue.path}: ${issue.message}${note}`);
+        }
+        if (report.fixed > 0) console.log(`  Fixed ${report.fixed} issue(s); saved ${report.file}`);
+      }
+    }
+
+    if (failed) process.exit(1);
+  });
+
+// ============================================================================
+// diff - Compare two versions of a presentation
+// ============================================================================
+
+program
+  .command('diff')
+  .description('Show what changed between two versions of a presentation (exits 1 if they differ)')
+  .argument('<before>', 'Earlier version (.pro)')
+  .argument('<after>', 'Later version (.pro)')
+  .option('--json', 'Output the changes as JSON')
+  .action(async (before: string, after: string, options: { json?: boolean }) => {
+    try {
+      const diff = diffPresentations(await readPresentation(before), await readPresentation(after));
+      if (options.json) {
+        console.log(JSON.stringify(diff, null, 2));
+      } else {
+        console.log(`--- ${before}\n+++ ${after}`);
+        console.log(formatPresentationDiff(diff));
+      }
+      if (!diff.identical) process.exit(1);
+    } catch (err: any) {
+      console.error(`Error: ${err.message}`);
+      process.exit(2);
+    }
+  });
+
+// ============================================================================
+// import - Create a presentation from a chord chart or lyrics
+// ============================================================================
+
+type ImportOptions = LyricsImportOptions & OpenLyricsImportOptions;
+
+/**
+ * Parser and file extensions of each import format, and for formats that
+ * share an extension with another, how to recognise them by content
+ */
+const IMPORT_FORMATS: Record<string, {
+  extensions: string[];
+  detect?: (source: string) => boolean;
+  parse: (source: string, options: ImportOptions) => CreatePresentationOptions;
+}> = {
+  chordpro: { extensions: ['.cho', '.chopro', '.chordpro', '.crd'], parse: parseChordPro },
+  songselect: { extensions: ['.usr', '.txt'], detect: isSongSelect, parse: parseSongSelect },
+  text: { extensions: ['.txt'], parse: parseLyrics },
+  openlyrics: { extensions: ['.xml'], parse: parseOpenLyrics },
+};
+
+function importFormat(file: string, source: string, format?: string): string {
+  if (format) {
+    if (!IMPORT_FORMATS[format]) {
+      throw new Error(`Unknown format: ${format} (use ${Object.keys(IMPORT_FORMATS).join(', ')})`);
+    }
+    return format;
+  }
+  const extension = path.extname(file).toLowerCase();
+  const detected = Object.keys(IMPORT_FORMATS).find(name => {
+    const { extensions, detect } = IMPORT_FORMATS[name];
+    return extensions.includes(extension) && (!detect || detect(source));
+  });
+  if (!detected) throw new Error(`Can't tell the format of ${file}; pass --format`);
+  return detected;
+}
+
+program
+  .command('import')
+  .description('Create presentations from chord charts, lyric sheets, SongSelect downloads or OpenLyrics songs')
+  .argument('<files...>', 'Files to import')
+  .option('-f, --format <format>', `Input format: ${Object.keys(IMPORT_FORMATS).join(', ')} (default: from the file extension)`)
+  .option('-o, --output <file>', 'Output file, when importing one file (default: <title>.pro next to the input)')
+  .option('-d, --output-dir <dir>', 'Directory to write presentations to (default: next to each input)')
+  .option('-l, --lines-per-slide <n>', 'Most lines on one slide; longer stanzas are split')
+  .option('--no-blank-lines', 'Don\'t start a new slide at blank lines')
+  .option('--heading <pattern>', 'Extra regular expression for section headings (repeatable)', collect, [])
+  .option('--language <lang>', 'Language to import from OpenLyrics songs with translations')
+  .option('--force', 'Overwrite existing presentations')
+  .option('--dry-run', 'Show the sections and slides without writing')
+  .action(async (files: string[], options: { format?: string; output?: string; outputDir?: string; linesPerSlide?: string; blankLines: boolean; heading: string[]; language?: string; force?: boolean; dryRun?: boolean }) => {
+    if (options.output && files.length > 1) {
+      console.error('Error: --output takes one input file; use --output-dir for several');
+      process.exit(1);
+    }
+
+    if (options.outputDir && !options.dryRun) {
+      await fs.mkdir(options.outputDir, { recursive: true });
+    }
+
+    let failed = 0;
+    for (const file of files) {
+      try {
+        const source = await fs.readFile(file, 'utf8');
+        const format = importFormat(file, source, options.format);
+        const importOptions: ImportOptions = {
+          title: path.basename(file, path.extname(file)),
+          linesPerSlide: options.linesPerSlide ? parseInt(options.linesPerSlide, 10) : undefined,
+          splitOnBlankLines: options.blankLines,
+          headingPatterns: options.heading.map(pattern => new RegExp(pattern, 'i')),
+          language: options.language,
+        };
+
+        const song = IMPORT_FORMATS[format].parse(source, importOptions);
+
+        const slideCount = song.sections.reduce((sum, section) => sum + section.slides.length, 0);
+        console.log(`Imported "${song.title}": ${song.sections.length} sections, ${slideCount} slides`);
+        if (song.ccliNumber) {
+          console.log(`CCLI #${song.ccliNumber}${song.ccliAuthor ? `, ${song.ccliAuthor}` : ''}${song.copyrightYear ? `, © ${song.copyrightYear}` : ''}`);
+        }
+        for (const section of song.sections) {
+          console.log(`  ${section.name} (${section.slides.length} slide${section.slides.length === 1 ? '' : 's'})`);
+        }
+        if (song.arrangement) {
+          console.log(`Order: ${song.arrangement.map(index => song.sections[index].name).join(', ')}`);
+        }
+
+        if (options.dryRun) {
+          console.log('\n(dry run - no changes written)\n');
+          continue;
+        }
+
+        const outputPath = options.output ||
+          path.join(options.outputDir || path.dirname(file), `${song.title.replace(/[\/\\:]/g, '-')}.pro`);
+        if (!options.force && await fs.access(outputPath).then(() => true, () => false)) {
+          console.log(`Skipped ${file}: ${outputPath} exists (use --force to overwrite)\n`);
+          continue;
+        }
+        await writePresentation(outputPath, createPresentation(song));
+        console.log(`Written to ${outputPath}\n`);
+      } catch (err: any) {
+        console.error(`Error: ${file}: ${err.message}\n`);
+        failed++;
+      }
+    }
+
+    if (failed > 0) process.exit(1);
+  });
+
+// ============================================================================
+// convert - Convert ProPresenter 6 documents
+// ============================================================================
+
+/**
+ * Files with an extension in a directory and its subdirectories, sorted
+ */
+async function findFiles(dir: string, extension: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await findFiles(entryPath, extension));
+    } else if (path.extname(entry.name).toLowerCase() === extension) {
+      files.push(entryPath);
+    }
+  }
+  return files.sort();
+}
+
+program
+  .command('convert')
+  .description('Convert ProPresenter 6 documents (.pro6) to ProPresenter 7 presentations')
+  .argument('<paths...>', '.pro6 files, or directories to convert every .pro6 file in')
+  .option('-d, --output-dir <dir>', 'Directory to write presentations to, keeping subdirectories (default: next to each input)')
+  .option('--force', 'Overwrite existing presentations')
+  .option('--dry-run', 'Show what would be converted without writing')
+  .action(async (paths: string[], options: { outputDir?: string; force?: boolean; dryRun?: boolean }) => {
+    // Each file with the directory its output path is relative to
+    const inputs: { file: string; root: string }[] = [];
+    for (const input of paths) {
+      try {
+        const stat = await fs.stat(input);
+        if (stat.isDirectory()) {
+          for (const file of await findFiles(input, '.pro6')) inputs.push({ file, root: input });
+        } else {
+          inputs.push({ file: input, root: path.dirname(input) });
+        }
+      } catch (err: any) {
+        console.error(`Error: ${err.message}`);
+        process.exit(1);
+      }
+    }
+
+    if (inputs.length === 0) {
+      console.error('Error: No .pro6 files found');
+      process.exit(1);
+    }
+
+    let converted = 0;
+    let skipped = 0;
+    let failed = 0;
+    for (const { file, root } of inputs) {
+      const outputPath = path.join(
+        options.outputDir ? path.join(options.outputDir, path.relative(root, path.dirname(file))) : path.dirname(file),
+        `${path.basename(file, path.extname(file))}.pro`
+      );
+
+      try {
+        if (!options.force && await fs.access(outputPath).then(() => true, () => false)) {
+          console.log(`Skipped ${file}: ${outputPath} exists (use --force to overwrite)`);
+          skipped++;
+          continue;
+        }
+
+        const { presentation, warnings } = await readPro6(file);
+        const slideCount = presentation.cues?.length || 0;
+        console.log(`${file} → ${outputPath} (${presentation.cueGroups?.length || 0} groups, ${slideCount} slides)`);
+        for (const warning of warnings) console.log(`  ⚠️  ${warning}`);
+
+        if (!options.dryRun) {
+          await fs.mkdir(path.dirname(outputPath), { recursive: true });
+          await writePresentation(outputPath, presentation);
+        }
+        converted++;
+      } catch (err: any) {
+        console.error(`Error: ${file}: ${err.message}`);
+        failed++;
+      }
+    }
+
+    console.log(`\n${converted} converted, ${skipped} skipped, ${failed} failed${options.dryRun ? ' (dry run - no changes written)' : ''}`);
+    if (failed > 0) process.exit(1);
+  });
+
 // ============================================================================
 // export - Export in various formats
 // ============================================================================
@@ -453,87 +1146,196 @@ program
   .command('export')
   .description('Export presentation in various formats')
   .argument('<file>', 'ProPresenter presentation file (.pro)')
-  .requiredOption('-f, --format <format>', 'Output format: ccli-report, lyrics-txt, markdown')
+  .requiredOption('-f, --format <format>', `Output format: ${EXPORT_FORMATS.join(', ')}`)
   .option('-o, --output <file>', 'Output file (default: stdout)')
-  .action(async (file: string, options: { format: string; output?: string }) => {
+  .option('-a, --arrangement <name>', 'Arrangement to follow (default: the selected one)')
+  .option('--no-arrangement', 'Show each group once, in group order')
+  .action(async (file: string, options: { format: string; output?: string; arrangement?: string | false }) => {
     try {
+      if (!EXPORT_FORMATS.includes(options.format)) {
+        console.error(`Unknown format: ${options.format}`);
+        console.error(`Available formats: ${EXPORT_FORMATS.join(', ')}`);
+        process.exit(1);
+      }
+
       const presentation = await readPresentation(file);
-      let output = '';
+      const output = renderPresentation(presentation, options.format, options.arrangement);
       
-      switch (options.format) {
-        case 'ccli-report': {
-          // Format for CCLI reporting
-          const ccli = presentation.ccli;
-          output = [
-            `Song Title: ${ccli?.songTitle || presentation.name || 'Unknown'}`,
-            `Author: ${ccli?.author || 'Unknown'}`,
-            `CCLI Number: ${ccli?.songNumber || 'N/A'}`,
-            `Publisher: ${ccli?.publisher || 'N/A'}`,
-            `Copyright Year: ${ccli?.copyrightYear || 'N/A'}`,
-            '',
-            '---',
-            '',
-            'Lyrics:',
-          ].join('\n');
-          
-          const byGroup = getCuesByGroup(presentation);
-          for (const [groupName, cues] of byGroup) {
-            output += `\n[${groupName}]\n`;
-            for (const cue of cues) {
-              output += getCueText(cue) + '\n\n';
-            }
-          }
-          break;
-        }
-        
-        case 'lyrics-txt': {
-          // Plain text lyrics
-          const byGroup = getCuesByGroup(presentation);
-          for (const [groupName, cues] of byGroup) {
-            output += `[${groupName}]\n`;
-            for (const cue of cues) {
-              output += getCueText(cue) + '\n\n';
-            }
-          }
-          break;
+      if (options.output) {
+        await fs.writeFile(options.output, output);
+        console.log(`Written to ${options.output}`);
+      } else {
+        console.log(output);
+      }
+    } catch (err: any) {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// playlist - Playlist commands
+// ============================================================================
+
+interface ServiceEntry {
+  item: PlaylistItem;
+  summary: PlaylistItemSummary;
+  presentation: Presentation | null;
+  /** Why the item's presentation couldn't be read */
+  error?: string;
+}
+
+/**
+ * Read a playlist and the presentations its items refer to
+ */
+async function readService(
+  file: string,
+  options: { playlist?: string; library?: string[] }
+): Promise<{ name: string; entries: ServiceEntry[] }> {
+  const document = await readPlaylist(file);
+  const playlist = getPlaylist(document, options.playlist);
+  if (!playlist) {
+    throw new Error(options.playlist ? `Playlist not found: ${options.playlist}` : 'No playlist in file');
+  }
+
+  const summaries = listPlaylistItems(playlist);
+  const entries: ServiceEntry[] = [];
+
+  for (const [index, item] of getPlaylistItems(playlist).entries()) {
+    const entry: ServiceEntry = { item, summary: summaries[index], presentation: null };
+    if (entry.summary.type === 'presentation') {
+      try {
+        entry.presentation = await readPlaylistItemPresentation(item, {
+          document,
+          baseDir: path.dirname(file),
+          searchPaths: options.library,
+        });
+      } catch (e: any) {
+        entry.error = e.message;
+      }
+    }
+    entries.push(entry);
+  }
+
+  return { name: playlist.name || 'Untitled', entries };
+}
+
+/**
+ * Arrangement a playlist item plays its presentation with
+ */
+function serviceArrangement(entry: ServiceEntry): Arrangement | null {
+  const presentation = entry.presentation;
+  const uuid = entry.summary.arrangement || presentation?.selectedArrangement?.string;
+  if (!presentation || !uuid) return null;
+  return findArrangement(presentation, uuid);
+}
+
+const playlistCommand = program
+  .command('playlist')
+  .description('Work with ProPresenter playlists (.proplaylist)');
+
+playlistCommand
+  .command('info')
+  .description('Show the run sheet of a playlist')
+  .argument('<file>', 'ProPresenter playlist file (.proplaylist)')
+  .option('-p, --playlist <name>', 'Playlist to show (default: the first)')
+  .option('-l, --library <dirs...>', 'Directories to look for songs in')
+  .option('--json', 'Output the run sheet as JSON')
+  .action(async (file: string, options: { playlist?: string; library?: string[]; json?: boolean }) => {
+    try {
+      const service = await readService(file, options);
+
+      if (options.json) {
+        console.log(JSON.stringify({
+          name: service.name,
+          items: service.entries.map(entry => ({
+            ...entry.summary,
+            title: entry.presentation?.ccli?.songTitle || entry.presentation?.name || undefined,
+            arrangementName: serviceArrangement(entry)?.name || undefined,
+            ccliNumber: entry.presentation?.ccli?.songNumber || undefined,
+            error: entry.error,
+          })),
+        }, null, 2));
+        return;
+      }
+
+      console.log(`\n📋 ${service.name}`);
+      console.log('─'.repeat(50));
+
+      for (const [index, entry] of service.entries.entries()) {
+        const number = `${String(index + 1).padStart(2)}.`;
+        const { summary, presentation } = entry;
+
+        if (summary.type === 'header') {
+          console.log(`\n${number} ▸ ${summary.name}`);
+        } else if (summary.type === 'presentation' && presentation) {
+          const title = presentation.ccli?.songTitle || presentation.name || summary.name;
+          const details: string[] = [];
+          const arrangement = serviceArrangement(entry)?.name || undefined;
+          if (arrangement) details.push(`arrangement: ${arrangement}`);
+          if (presentation.ccli?.songNumber) details.push(`CCLI #${presentation.ccli.songNumber}`);
+          console.log(`${number} 🎵 ${title}${details.length ? `  (${details.join(', ')})` : ''}`);
+        } else if (summary.type === 'presentation') {
+          console.log(`${number} ⚠️  ${summary.name}  (${entry.error})`);
+        } else {
+          console.log(`${number}    ${summary.name}  [${summary.type}]`);
         }
-        
-        case 'markdown': {
-          // Markdown format
-          const ccli = presentation.ccli;
-          output = `# ${ccli?.songTitle || presentation.name || 'Untitled'}\n\n`;
-          
-          if (ccli?.author) output += `**Author:** ${ccli.author}\n`;
-          if (ccli?.songNumber) output += `**CCLI:** ${ccli.songNumber}\n`;
-          
-          const musicKey = getMusicKey(presentation);
-          if (musicKey.current) output += `**Key:** ${musicKey.current}\n`;
-          
-          output += '\n---\n\n';
-          
-          const byGroup = getCuesByGroup(presentation);
-          for (const [groupName, cues] of byGroup) {
-            output += `## ${groupName}\n\n`;
-            for (const cue of cues) {
-              const text = getCueText(cue);
-              const chords = getCueChords(cue);
-              
-              if (chords.length > 0) {
-                output += `*Chords: ${chords.map(c => c.chord).join(' ')}*\n\n`;
-              }
-              
-              output += text.split('\n').map(l => `> ${l}`).join('\n') + '\n\n';
-            }
-          }
-          break;
+      }
+
+      console.log('');
+    } catch (err: any) {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+playlistCommand
+  .command('export')
+  .description('Export the lyrics of every song in a playlist')
+  .argument('<file>', 'ProPresenter playlist file (.proplaylist)')
+  .requiredOption('-f, --format <format>', `Output format: ${EXPORT_FORMATS.filter(f => !SONG_ONLY_FORMATS.includes(f)).join(', ')}`)
+  .option('-p, --playlist <name>', 'Playlist to export (default: the first)')
+  .option('-l, --library <dirs...>', 'Directories to look for songs in')
+  .option('-o, --output <file>', 'Output file (default: stdout)')
+  .option('--no-arrangement', 'Show each group once, instead of the arrangement chosen in the playlist')
+  .action(async (file: string, options: { format: string; playlist?: string; library?: string[]; output?: string; arrangement: boolean }) => {
+    try {
+      const formats = EXPORT_FORMATS.filter(f => !SONG_ONLY_FORMATS.includes(f));
+      if (!formats.includes(options.format)) {
+        console.error(`Unknown format: ${options.format}`);
+        console.error(`Available formats: ${formats.join(', ')}`);
+        process.exit(1);
+      }
+
+      const service = await readService(file, options);
+      const sections: string[] = [];
+
+      if (options.format === 'ccli-report') {
+        // Songs to report first, then each song's details
+        const songs = service.entries.filter(e => e.presentation?.ccli?.songNumber);
+        sections.push([
+          `CCLI Song Report: ${service.name}`,
+          '================',
+          '',
+          ...songs.map(e => `${e.presentation!.ccli!.songNumber}\t${e.presentation!.ccli!.songTitle || e.presentation!.name}`),
+        ].join('\n'));
+      }
+
+      for (const entry of service.entries) {
+        if (entry.summary.type === 'header') {
+          sections.push(options.format === 'markdown' ? `# ${entry.summary.name}` : `=== ${entry.summary.name} ===`);
+        } else if (entry.presentation) {
+          // Follow the arrangement picked for the item, or else the song's selected one
+          const arrangement = options.arrangement ? serviceArrangement(entry)?.uuid?.string || undefined : false;
+          sections.push(renderPresentation(entry.presentation, options.format, arrangement).trimEnd());
+        } else if (entry.error) {
+          console.error(`Warning: Could not read ${entry.summary.name}: ${entry.error}`);
         }
-        
-        default:
-          console.error(`Unknown format: ${options.format}`);
-          console.error('Available formats: ccli-report, lyrics-txt, markdown');
-          process.exit(1);
       }
-      
+
+      const separator = options.format === 'markdown' ? '\n\n---\n\n' : '\n\n';
+      const output = sections.join(separator) + '\n';
+
       if (options.output) {
         await fs.writeFile(options.output, output);
         console.log(`Written to ${options.output}`);
@@ -546,6 +1348,82 @@ program
     }
   });
 
+playlistCommand
+  .command('build')
+  .description('Create a playlist from an order of service (YAML or JSON)')
+  .argument('<order>', 'Order of service file (.yaml, .yml or .json)')
+  .option('-o, --output <file>', 'Output file (default: order file name with .proplaylist)')
+  .action(async (orderFile: string, options: { output?: string }) => {
+    try {
+      const source = await fs.readFile(orderFile, 'utf-8');
+      const order: ServiceOrder = path.extname(orderFile).toLowerCase() === '.json'
+        ? JSON.parse(source)
+        : YAML.parse(source);
+
+      const document = await buildPlaylist(order, { baseDir: path.dirname(orderFile) });
+      const output = options.output || orderFile.replace(/\.(ya?ml|json)$/i, '') + '.proplaylist';
+      await writePlaylist(output, document);
+
+      const count = getPlaylistItems(getPlaylist(document)!).length;
+      console.log(`✓ Built "${order.name}" with ${count} items`);
+      console.log(`Written to ${output}`);
+    } catch (err: any) {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// workspace - Workspace commands
+// ============================================================================
+
+const workspaceCommand = program
+  .command('workspace')
+  .description('Work with ProPresenter workspaces (.proworkspace)');
+
+workspaceCommand
+  .command('info')
+  .description('Show the screens, looks and other setup of a workspace')
+  .argument('<file>', 'ProPresenter workspace file (.proworkspace)')
+  .option('-v, --verbose', 'Show the settings of every entry')
+  .option('--json', 'Output the summary as JSON (e.g. to diff two workspaces)')
+  .action(async (file: string, options: { verbose?: boolean; json?: boolean }) => {
+    try {
+      const workspace = await readWorkspace(file);
+      const sections = await summarizeWorkspace(workspace);
+
+      if (options.json) {
+        console.log(JSON.stringify(sections, null, 2));
+        return;
+      }
+
+      console.log(`\n🖥  ${path.basename(file, path.extname(file))}`);
+      console.log('─'.repeat(50));
+      console.log(formatFileVersion(await readFileVersion(file)));
+
+      if (sections.length === 0) {
+        console.log('\n(empty workspace)');
+      }
+
+      for (const section of sections) {
+        console.log(`\n${section.label} (${section.entries.length})`);
+        for (const entry of section.entries) {
+          console.log(`  • ${entry.name || entry.uuid || '(unnamed)'}`);
+          if (options.verbose) {
+            for (const [key, value] of Object.entries(entry.settings)) {
+              console.log(`      ${key}: ${value}`);
+            }
+          }
+        }
+      }
+
+      console.log('');
+    } catch (err: any) {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
 // ============================================================================
 // batch - Batch operations
 // ============================================================================
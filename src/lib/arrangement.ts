@@ -0,0 +1,298 @@
+/**
+ * Arrangements
+ *
+ * An arrangement is an ordered list of group UUIDs, so a group can be played
+ * more than once (Verse 1, Chorus, Verse 2, Chorus, ...). The presentation's
+ * `selectedArrangement` is the one ProPresenter shows.
+ */
+
+import type { rv } from '../generated/types.js';
+import { generateUuid, getCuesByGroup, type Presentation, type CueGroup, type Cue } from './index.js';
+
+export type Arrangement = rv.data.Presentation.Arrangement;
+
+/**
+ * A group as it is played in an arrangement
+ */
+export interface ArrangementSection {
+  /** Name of the group */
+  name: string;
+  group: CueGroup;
+  cues: Cue[];
+}
+
+// ============================================================================
+// Groups
+// ============================================================================
+
+/**
+ * Short form of a group name: the initials of its words plus any number,
+ * e.g. "Verse 1" → "V1", "Pre-Chorus" → "PC", "Chorus" → "C"
+ */
+export function abbreviateGroupName(name: string): string {
+  const words = name.split(/[\s-]+/).filter(Boolean);
+  return words
+    .map(word => (/^\d+$/.test(word) ? word : word.charAt(0)))
+    .join('')
+    .toUpperCase();
+}
+
+/**
+ * Find a cue group by name, UUID or abbreviation (see `abbreviateGroupName`),
+ * all case-insensitive
+ */
+export function findCueGroup(presentation: Presentation, ref: string): CueGroup | null {
+  const groups = presentation.cueGroups || [];
+  const wanted = ref.trim().toLowerCase();
+
+  const byName = groups.find(g => (g.group?.name || '').toLowerCase() === wanted);
+  if (byName) return byName;
+
+  const byUuid = groups.find(g => g.group?.uuid?.string?.toLowerCase() === wanted);
+  if (byUuid) return byUuid;
+
+  const byAbbreviation = groups.filter(g => abbreviateGroupName(g.group?.name || '').toLowerCase() === wanted);
+  if (byAbbreviation.length > 1) {
+    const names = byAbbreviation.map(g => g.group?.name).join(', ');
+    throw new Error(`Ambiguous group "${ref}": ${names}`);
+  }
+  return byAbbreviation[0] || null;
+}
+
+/**
+ * Rename a cue group. Arrangements refer to groups by UUID, so they follow.
+ */
+export function renameCueGroup(presentation: Presentation, ref: string, name: string): boolean {
+  const group = findCueGroup(presentation, ref);
+  if (!group?.group) return false;
+  group.group.name = name;
+  return true;
+}
+
+/**
+ * Delete a cue group, its cues (unless another group uses them) and every
+ * reference to it from the arrangements
+ */
+export function deleteCueGroup(presentation: Presentation, ref: string): boolean {
+  const group = findCueGroup(presentation, ref);
+  if (!group) return false;
+
+  const groupUuid = group.group?.uuid?.string;
+  presentation.cueGroups = (presentation.cueGroups || []).filter(g => g !== group);
+
+  for (const arrangement of presentation.arrangements || []) {
+    arrangement.groupIdentifiers = (arrangement.groupIdentifiers || []).filter(id => id.string !== groupUuid);
+  }
+
+  const stillUsed = new Set(
+    presentation.cueGroups.flatMap(g => (g.cueIdentifiers || []).map(id => id.string))
+  );
+  const removed = new Set(
+    (group.cueIdentifiers || []).map(id => id.string).filter(id => !stillUsed.has(id))
+  );
+  presentation.cues = (presentation.cues || []).filter(cue => !removed.has(cue.uuid?.string));
+  return true;
+}
+
+// ============================================================================
+// Reading Arrangements
+// ============================================================================
+
+/**
+ * Get all arrangements of a presentation
+ */
+export function getArrangements(presentation: Presentation): Arrangement[] {
+  return presentation.arrangements || [];
+}
+
+/**
+ * Find an arrangement by name (case-insensitive) or UUID
+ */
+export function findArrangement(presentation: Presentation, ref: string): Arrangement | null {
+  const wanted = ref.toLowerCase();
+  return getArrangements(presentation).find(
+    a => (a.name || '').toLowerCase() === wanted || a.uuid?.string?.toLowerCase() === wanted
+  ) || null;
+}
+
+/**
+ * Get the arrangement ProPresenter shows for a presentation, if any
+ */
+export function getSelectedArrangement(presentation: Presentation): Arrangement | null {
+  const uuid = presentation.selectedArrangement?.string;
+  if (!uuid) return null;
+  return getArrangements(presentation).find(a => a.uuid?.string === uuid) || null;
+}
+
+/**
+ * Expand an arrangement into its groups in playing order, repeats included
+ */
+export function expandArrangement(presentation: Presentation, arrangement: Arrangement): ArrangementSection[] {
+  const groups = new Map<string, CueGroup>();
+  for (const group of presentation.cueGroups || []) {
+    if (group.group?.uuid?.string) groups.set(group.group.uuid.string, group);
+  }
+
+  const cues = new Map<string, Cue>();
+  for (const cue of presentation.cues || []) {
+    if (cue.uuid?.string) cues.set(cue.uuid.string, cue);
+  }
+
+  const sections: ArrangementSection[] = [];
+  for (const id of arrangement.groupIdentifiers || []) {
+    // Arrangements can outlive groups deleted by older tools; skip those
+    const group = id.string && groups.get(id.string);
+    if (!group) continue;
+    sections.push({
+      name: group.group?.name || 'Unnamed',
+      group,
+      cues: (group.cueIdentifiers || [])
+        .map(cueId => cueId.string && cues.get(cueId.string))
+        .filter((cue): cue is Cue => !!cue),
+    });
+  }
+  return sections;
+}
+
+/**
+ * Get the cues of an arrangement in playing order, repeats included
+ */
+export function getArrangementCues(presentation: Presentation, arrangement: Arrangement): Cue[] {
+  return expandArrangement(presentation, arrangement).flatMap(section => section.cues);
+}
+
+/**
+ * A group in a song's sung order, with back-to-back repeats collapsed
+ */
+export interface SongSection {
+  name: string;
+  cues: Cue[];
+  /** How many times in a row the group is played */
+  repeat: number;
+}
+
+export interface SongOrderOptions {
+  /**
+   * Arrangement to follow, by name or UUID, or false for group order
+   * (default: the selected arrangement, if any)
+   */
+  arrangement?: string | false;
+}
+
+/**
+ * Get a song's sections in the order they're sung. Follows an arrangement
+ * when there is one, collapsing consecutive repeats (Chorus, Chorus → Chorus
+ * x2); otherwise each group once, in the order they're defined. Throws if the
+ * arrangement is missing or has no sections left.
+ */
+export function getSongSections(presentation: Presentation, options: SongOrderOptions = {}): SongSection[] {
+  const arrangement = options.arrangement === false ? null
+    : options.arrangement ? findArrangement(presentation, options.arrangement)
+    : getSelectedArrangement(presentation);
+  if (options.arrangement && !arrangement) {
+    throw new Error(`Arrangement not found: ${options.arrangement}`);
+  }
+
+  if (arrangement) {
+    const sections: SongSection[] = [];
+    let previous: CueGroup | null = null;
+    for (const section of expandArrangement(presentation, arrangement)) {
+      if (section.group === previous) {
+        sections[sections.length - 1].repeat++;
+      } else {
+        sections.push({ name: section.name, cues: section.cues, repeat: 1 });
+      }
+      previous = section.group;
+    }
+    if (sections.length === 0) {
+      throw new Error(`Arrangement is empty: ${arrangement.name || arrangement.uuid?.string}`);
+    }
+    return sections;
+  }
+
+  return [...getCuesByGroup(presentation)].map(([name, cues]) => ({ name, cues, repeat: 1 }));
+}
+
+/**
+ * Label a section with its repeat count, e.g. "Chorus x2"
+ */
+export function formatSectionName(section: SongSection): string {
+  return section.repeat > 1 ? `${section.name} x${section.repeat}` : section.name;
+}
+
+// ============================================================================
+// Editing Arrangements
+// ============================================================================
+
+function resolveGroupIdentifiers(presentation: Presentation, groups: string[]): { string: string }[] {
+  return groups.map(ref => {
+    const group = findCueGroup(presentation, ref);
+    const uuid = group?.group?.uuid?.string;
+    if (!uuid) throw new Error(`Group not found: ${ref}`);
+    return { string: uuid };
+  });
+}
+
+/**
+ * Create an arrangement from group names, UUIDs or abbreviations
+ *
+ * @example
+ * ```typescript
+ * createArrangement(presentation, 'Short', ['V1', 'C', 'V2', 'C', 'B', 'C', 'C']);
+ * ```
+ */
+export function createArrangement(presentation: Presentation, name: string, groups: string[]): Arrangement {
+  const arrangement: Arrangement = {
+    uuid: generateUuid(),
+    name,
+    groupIdentifiers: resolveGroupIdentifiers(presentation, groups),
+  };
+  if (!presentation.arrangements) presentation.arrangements = [];
+  presentation.arrangements.push(arrangement);
+  return arrangement;
+}
+
+/**
+ * Replace the group order of an arrangement
+ */
+export function setArrangementGroups(presentation: Presentation, ref: string, groups: string[]): boolean {
+  const arrangement = findArrangement(presentation, ref);
+  if (!arrangement) return false;
+  arrangement.groupIdentifiers = resolveGroupIdentifiers(presentation, groups);
+  return true;
+}
+
+/**
+ * Rename an arrangement
+ */
+export function renameArrangement(presentation: Presentation, ref: string, name: string): boolean {
+  const arrangement = findArrangement(presentation, ref);
+  if (!arrangement) return false;
+  arrangement.name = name;
+  return true;
+}
+
+/**
+ * Delete an arrangement. If it was selected, the first remaining one is
+ * selected instead.
+ */
+export function deleteArrangement(presentation: Presentation, ref: string): boolean {
+  const arrangement = findArrangement(presentation, ref);
+  if (!arrangement) return false;
+
+  presentation.arrangements = getArrangements(presentation).filter(a => a !== arrangement);
+  if (presentation.selectedArrangement?.string === arrangement.uuid?.string) {
+    presentation.selectedArrangement = presentation.arrangements[0]?.uuid;
+  }
+  return true;
+}
+
+/**
+ * Make an arrangement the one ProPresenter shows
+ */
+export function selectArrangement(presentation: Presentation, ref: string): boolean {
+  const arrangement = findArrangement(presentation, ref);
+  if (!arrangement?.uuid) return false;
+  presentation.selectedArrangement = arrangement.uuid;
+  return true;
+}
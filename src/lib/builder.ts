@@ -0,0 +1,343 @@
+/**
+ * Presentation builder
+ *
+ * Group and slide edits that keep the cue list, each group's
+ * `cueIdentifiers` and the arrangements in step, for new presentations and
+ * ones read from disk alike.
+ */
+
+import { generateUuid, getCueSlide, setCueText, type Color, type Cue, type CueGroup, type Presentation, type Slide } from './index.js';
+import { createCue, createPresentation, DEFAULT_GROUP_COLORS, type SlideInput, type SlideStyle } from './create.js';
+import {
+  createArrangement,
+  deleteCueGroup,
+  findArrangement,
+  findCueGroup,
+  selectArrangement,
+  setArrangementGroups,
+} from './arrangement.js';
+import { getSectionColor } from './lyrics.js';
+
+export interface GroupOptions {
+  /** Group color (default: by section type, else the next default color) */
+  color?: Color;
+  /** Position among the groups (default: after the last) */
+  index?: number;
+  /** Also play the group at the end of every arrangement (default: false) */
+  addToArrangements?: boolean;
+}
+
+/**
+ * Deep copy of a cue with new UUIDs, and references within it (such as an
+ * element build order) pointing at the new ones
+ */
+function copyCue(cue: Cue): Cue {
+  const copy = structuredClone(cue);
+  const renamed = new Map<string, string>();
+
+  const visit = (value: unknown, rename: (node: Record<string, unknown>) => void) => {
+    if (typeof value !== 'object' || value === null || ArrayBuffer.isView(value)) return;
+    const node = value as Record<string, unknown>;
+    rename(node);
+    for (const child of Object.values(node)) visit(child, rename);
+  };
+  visit(copy, node => {
+    const uuid = node.uuid as { string?: unknown } | undefined;
+    if (typeof uuid?.string === 'string') renamed.set(uuid.string, generateUuid().string);
+  });
+  visit(copy, node => {
+    if (typeof node.string === 'string' && renamed.has(node.string)) node.string = renamed.get(node.string);
+  });
+  return copy;
+}
+
+/**
+ * Builds and edits a presentation in place. Groups are found by name, UUID or
+ * abbreviation (see `findCueGroup`), slides by their index within a group,
+ * counting from 0. Every method returns the builder, so edits chain.
+ *
+ * @example
+ * ```typescript
+ * const presentation = PresentationBuilder.create('Amazing Grace')
+ *   .addGroup('Verse 1', ['Amazing grace how sweet the sound', 'That saved a wretch like me'])
+ *   .addGroup('Chorus', ['My chains are gone'])
+ *   .arrange('Default', ['V1', 'C', 'C'])
+ *   .build();
+ *
+ * const builder = new PresentationBuilder(await readPresentation('Song.pro'));
+ * builder.duplicateSlide('Chorus', 0).moveSlide('Chorus', 1, 0, 'Verse 1').deleteGroup('Tag');
+ * await writePresentation('Song.pro', builder.build());
+ * ```
+ */
+export class PresentationBuilder {
+  /** The presentation being edited */
+  readonly presentation: Presentation;
+  /** Font and layout of slides the builder adds */
+  readonly style: SlideStyle;
+
+  constructor(presentation: Presentation, style: SlideStyle = {}) {
+    this.presentation = presentation;
+    this.style = style;
+    presentation.cues ||= [];
+    presentation.cueGroups ||= [];
+  }
+
+  /**
+   * Start an empty presentation
+   */
+  static create(title: string, style: SlideStyle = {}): PresentationBuilder {
+    return new PresentationBuilder(createPresentation({ ...style, title, sections: [], createArrangement: false }), style);
+  }
+
+  /**
+   * The edited presentation
+   */
+  build(): Presentation {
+    return this.presentation;
+  }
+
+  // ==========================================================================
+  // Lookup
+  // ==========================================================================
+
+  /**
+   * Find a group, throwing if there's none
+   */
+  getGroup(ref: string): CueGroup {
+    const group = findCueGroup(this.presentation, ref);
+    if (!group) throw new Error(`Group not found: ${ref}`);
+    return group;
+  }
+
+  /**
+   * The slides (cues) of a group, in order
+   */
+  getSlides(ref: string): Cue[] {
+    const cues = new Map(this.presentation.cues!.map(cue => [cue.uuid?.string, cue]));
+    return (this.getGroup(ref).cueIdentifiers || []).map(id => cues.get(id.string)).filter((cue): cue is Cue => !!cue);
+  }
+
+  /**
+   * One slide of a group
+   */
+  getSlide(ref: string, index: number): Cue {
+    const slides = this.getSlides(ref);
+    return slides[this.checkIndex(ref, index, slides.length - 1)];
+  }
+
+  private checkIndex(ref: string, index: number, max: number): number {
+    if (!Number.isInteger(index) || index < 0 || index > max) {
+      throw new Error(`Slide index ${index} out of range for group "${ref}" (${max < 0 ? 'no slides' : `0-${max}`})`);
+    }
+    return index;
+  }
+
+  // ==========================================================================
+  // Groups
+  // ==========================================================================
+
+  /**
+   * Add a group with its slides
+   */
+  addGroup(name: string, slides: (string | SlideInput)[] = [], options: GroupOptions = {}): this {
+    const groups = this.presentation.cueGroups!;
+    const cueGroup: CueGroup = {
+      group: {
+        uuid: generateUuid(),
+        name,
+        color: options.color || getSectionColor(name) || DEFAULT_GROUP_COLORS[groups.length % DEFAULT_GROUP_COLORS.length],
+        hotKey: { code: 0, controlIdentifier: '' },
+        applicationGroupName: '',
+      },
+      cueIdentifiers: [],
+    };
+
+    const index = options.index ?? groups.length;
+    if (!Number.isInteger(index) || index < 0 || index > groups.length) {
+      throw new Error(`Group index ${index} out of range (0-${groups.length})`);
+    }
+    groups.splice(index, 0, cueGroup);
+
+    const uuid = cueGroup.group!.uuid!.string!;
+    slides.forEach((slide, slideIndex) => this.insertSlide(uuid, slideIndex, slide));
+
+    if (options.addToArrangements) {
+      for (const arrangement of this.presentation.arrangements || []) {
+        (arrangement.groupIdentifiers ||= []).push({ string: uuid });
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Rename a group; arrangements refer to it by UUID, so they follow
+   */
+  renameGroup(ref: string, name: string): this {
+    this.getGroup(ref).group!.name = name;
+    return this;
+  }
+
+  /**
+   * Move a group to another position among the groups
+   */
+  moveGroup(ref: string, index: number): this {
+    const groups = this.presentation.cueGroups!;
+    if (!Number.isInteger(index) || index < 0 || index >= groups.length) {
+      throw new Error(`Group index ${index} out of range (0-${groups.length - 1})`);
+    }
+    const group = this.getGroup(ref);
+    groups.splice(groups.indexOf(group), 1);
+    groups.splice(index, 0, group);
+    this.sortCues();
+    return this;
+  }
+
+  /**
+   * Delete a group, its slides and its places in the arrangements
+   */
+  deleteGroup(ref: string): this {
+    this.getGroup(ref);
+    deleteCueGroup(this.presentation, ref);
+    return this;
+  }
+
+  setGroupColor(ref: string, color: Color): this {
+    this.getGroup(ref).group!.color = color;
+    return this;
+  }
+
+  // ==========================================================================
+  // Slides
+  // ==========================================================================
+
+  /**
+   * Add a slide at the end of a group
+   */
+  addSlide(ref: string, slide: string | SlideInput): this {
+    return this.insertSlide(ref, this.getGroup(ref).cueIdentifiers?.length || 0, slide);
+  }
+
+  /**
+   * Insert a slide into a group before the slide at `index`
+   */
+  insertSlide(ref: string, index: number, slide: string | SlideInput): this {
+    const group = this.getGroup(ref);
+    const identifiers = (group.cueIdentifiers ||= []);
+    this.checkIndex(ref, index, identifiers.length);
+
+    const input = typeof slide === 'string' ? { text: slide } : slide;
+    const cue = createCue(`${group.group?.name} - Slide ${index + 1}`, input.text, this.style, input.chords);
+    this.presentation.cues!.push(cue);
+    identifiers.splice(index, 0, cue.uuid!);
+    this.sortCues();
+    return this;
+  }
+
+  /**
+   * Move a slide within its group, or to another group
+   *
+   * @param toIndex Position in the destination group, counted after the
+   *   slide is taken out
+   * @param toRef Destination group (default: the same group)
+   */
+  moveSlide(ref: string, index: number, toIndex: number, toRef: string = ref): this {
+    const from = this.getGroup(ref);
+    const to = this.getGroup(toRef);
+    const identifiers = (from.cueIdentifiers ||= []);
+    const destination = (to.cueIdentifiers ||= []);
+    this.checkIndex(ref, index, identifiers.length - 1);
+    this.checkIndex(toRef, toIndex, destination.length - (from === to ? 1 : 0));
+
+    const [id] = identifiers.splice(index, 1);
+    destination.splice(toIndex, 0, id);
+    this.sortCues();
+    return this;
+  }
+
+  /**
+   * Copy a slide, placing the copy right after it
+   */
+  duplicateSlide(ref: string, index: number): this {
+    const copy = copyCue(this.getSlide(ref, index));
+    this.presentation.cues!.push(copy);
+    this.getGroup(ref).cueIdentifiers!.splice(index + 1, 0, copy.uuid!);
+    this.sortCues();
+    return this;
+  }
+
+  /**
+   * Delete a slide from a group, and from the presentation unless another
+   * group also shows it
+   */
+  deleteSlide(ref: string, index: number): this {
+    const identifiers = this.getGroup(ref).cueIdentifiers || [];
+    const [id] = identifiers.splice(this.checkIndex(ref, index, identifiers.length - 1), 1);
+
+    const stillUsed = this.presentation.cueGroups!.some(group =>
+      (group.cueIdentifiers || []).some(other => other.string === id.string)
+    );
+    if (!stillUsed) {
+      this.presentation.cues = this.presentation.cues!.filter(cue => cue.uuid?.string !== id.string);
+    }
+    return this;
+  }
+
+  setSlideText(ref: string, index: number, text: string): this {
+    if (!setCueText(this.getSlide(ref, index), text)) {
+      throw new Error(`Slide ${index} of group "${ref}" has no text element`);
+    }
+    return this;
+  }
+
+  /**
+   * Set the background color of every slide, a group's slides or one slide;
+   * null shows no background color
+   */
+  setBackground(color: Color | null, ref?: string, index?: number): this {
+    const cues = ref === undefined
+      ? this.presentation.cues!
+      : index === undefined ? this.getSlides(ref) : [this.getSlide(ref, index)];
+
+    for (const cue of cues) {
+      const presentationSlide = getCueSlide(cue);
+      const slide: Slide | null | undefined = presentationSlide?.baseSlide || presentationSlide;
+      if (!slide) continue;
+      slide.drawsBackgroundColor = color !== null;
+      if (color) slide.backgroundColor = color;
+    }
+    return this;
+  }
+
+  // ==========================================================================
+  // Arrangements
+  // ==========================================================================
+
+  /**
+   * Create an arrangement, or replace the order of the one with this name
+   *
+   * @param select Make it the arrangement ProPresenter shows (default: true)
+   */
+  arrange(name: string, groups: string[], select = true): this {
+    if (findArrangement(this.presentation, name)) {
+      setArrangementGroups(this.presentation, name, groups);
+    } else {
+      createArrangement(this.presentation, name, groups);
+    }
+    if (select) selectArrangement(this.presentation, name);
+    return this;
+  }
+
+  /**
+   * Keep the cue list in group order, with cues no group shows at the end
+   */
+  private sortCues(): void {
+    const order = new Map<string, number>();
+    for (const group of this.presentation.cueGroups!) {
+      for (const id of group.cueIdentifiers || []) {
+        if (id.string && !order.has(id.string)) order.set(id.string, order.size);
+      }
+    }
+    const position = (cue: Cue) => order.get(cue.uuid?.string || '') ?? order.size;
+    this.presentation.cues = [...this.presentation.cues!].sort((a, b) => position(a) - position(b));
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Chord parsing and notation
+ *
+ * Splits chord names like `F#m7b5/C#` into root, quality, extensions and bass
+ * note, and writes them back as letters, Nashville numbers or Roman numerals
+ * relative to a key.
+ */
+
+import type { ChordInfo } from './index.js';
+import { notePitch, parseKey } from './transpose.js';
+
+export type ChordQuality = 'major' | 'minor' | 'diminished' | 'half-diminished' | 'augmented' | 'power';
+
+export type ChordNotation = 'letters' | 'nashville' | 'roman';
+
+export const CHORD_NOTATIONS: ChordNotation[] = ['letters', 'nashville', 'roman'];
+
+export interface ParsedChord {
+  /** Root note, e.g. 'F#' */
+  root: string;
+  quality: ChordQuality;
+  /** Extensions and alterations in the order written, e.g. ['7', 'b5'] */
+  extensions: string[];
+  /** Bass note of a slash chord */
+  bass?: string;
+  /** Everything between the root and the bass note, as written */
+  suffix: string;
+}
+
+// The suffix may hold a slash before a number, as in `C6/9`
+const CHORD_PATTERN = /^([A-G](?:[#♯]|[b♭])?)((?:[^/]|\/(?=\d))*)(?:\/([A-G](?:[#♯]|[b♭])?))?$/;
+
+/** Quality markers, longest first so `maj7` isn't read as minor */
+const QUALITY_PATTERNS: [RegExp, ChordQuality][] = [
+  [/^(?=maj|M\d|Δ)/, 'major'],
+  [/^(?:min|mi|m|-)/, 'minor'],
+  [/^(?:dim|°|o)/, 'diminished'],
+  [/^ø/, 'half-diminished'],
+  [/^(?:aug|\+(?!\d))/, 'augmented'],
+  [/^5$/, 'power'],
+];
+
+const EXTENSION_PATTERN = /^\/?(?:(?:maj|M|Δ|add|sus|no|[#b♯♭+-])?\d{1,2}|sus|alt|maj|Δ)/;
+
+/** 'No chord' markers, which are valid chord chart entries but not chords */
+const NO_CHORD_PATTERN = /^(?:N\.?C\.?|%)$/i;
+
+const NASHVILLE_DEGREES = ['1', 'b2', '2', 'b3', '3', '4', '#4', '5', 'b6', '6', 'b7', '7'];
+const ROMAN_DEGREES = ['I', 'bII', 'II', 'bIII', 'III', 'IV', '#IV', 'V', 'bVI', 'VI', 'bVII', 'VII'];
+
+function normalizeAccidentals(note: string): string {
+  return note.replace('♯', '#').replace('♭', 'b');
+}
+
+/**
+ * Check for a 'no chord' marker such as `N.C.`
+ */
+export function isNoChord(chord: string): boolean {
+  return NO_CHORD_PATTERN.test(chord.trim());
+}
+
+/**
+ * Parse a chord name. Returns null for anything that isn't a chord this
+ * parser understands, including 'no chord' markers (see `isNoChord`).
+ *
+ * @example
+ * ```typescript
+ * parseChord('F#m7b5/C#');
+ * // { root: 'F#', quality: 'minor', extensions: ['7', 'b5'], bass: 'C#', suffix: 'm7b5' }
+ * ```
+ */
+export function parseChord(chord: string): ParsedChord | null {
+  const match = CHORD_PATTERN.exec(chord.trim());
+  if (!match) return null;
+
+  const [, root, suffix, bass] = match;
+  let rest = suffix.replace(/[()\s,]/g, '');
+  let quality: ChordQuality = 'major';
+
+  for (const [pattern, value] of QUALITY_PATTERNS) {
+    const marker = pattern.exec(rest);
+    if (marker) {
+      quality = value;
+      if (value !== 'power') rest = rest.slice(marker[0].length);
+      break;
+    }
+  }
+
+  const extensions: string[] = [];
+  while (rest && quality !== 'power') {
+    const extension = EXTENSION_PATTERN.exec(rest);
+    if (!extension) return null;
+    extensions.push(normalizeAccidentals(extension[0]));
+    rest = rest.slice(extension[0].length);
+  }
+
+  return {
+    root: normalizeAccidentals(root),
+    quality,
+    extensions: quality === 'power' ? ['5'] : extensions,
+    bass: bass ? normalizeAccidentals(bass) : undefined,
+    suffix,
+  };
+}
+
+/**
+ * Degree of a note in a key, as an index into the 12 semitones above the tonic
+ */
+function degreeOf(note: string, key: { pitch: number }): number {
+  return (notePitch(note)! - key.pitch + 12) % 12;
+}
+
+function qualitySymbol(quality: ChordQuality, notation: ChordNotation): string {
+  switch (quality) {
+    case 'minor': return notation === 'roman' ? '' : 'm';
+    case 'diminished': return '°';
+    case 'half-diminished': return 'ø';
+    case 'augmented': return '+';
+    default: return '';
+  }
+}
+
+/**
+ * Write a parsed chord in a notation. Numbers count from the key's tonic
+ * (1 / I), minor keys included, with degrees outside the major scale marked
+ * b or #; Nashville extensions that start with a number are bracketed
+ * (`5(7)`). Roman numerals are lowercase for minor and diminished chords. Bass
+ * notes are written as scale degrees in both number notations (`1/3`, `I/3`).
+ *
+ * @param key Key to number against (not needed for letters)
+ */
+export function formatChord(chord: ParsedChord, notation: ChordNotation, key?: string): string {
+  if (notation === 'letters') {
+    return `${chord.root}${chord.suffix}${chord.bass ? `/${chord.bass}` : ''}`;
+  }
+
+  const parsedKey = key ? parseKey(key) : null;
+  if (!parsedKey) throw new Error(key ? `Invalid key: ${key}` : `A key is needed for ${notation} notation`);
+
+  const degree = degreeOf(chord.root, parsedKey);
+  let root = notation === 'nashville' ? NASHVILLE_DEGREES[degree] : ROMAN_DEGREES[degree];
+  if (notation === 'roman' && ['minor', 'diminished', 'half-diminished'].includes(chord.quality)) {
+    root = root.toLowerCase();
+  }
+
+  const symbol = qualitySymbol(chord.quality, notation);
+  let extensions = chord.extensions.join('');
+  // "57" would read as one number; write "5(7)"
+  if (notation === 'nashville' && !symbol && /^[\d/]/.test(extensions)) extensions = `(${extensions})`;
+
+  const bass = chord.bass ? `/${NASHVILLE_DEGREES[degreeOf(chord.bass, parsedKey)]}` : '';
+  return `${root}${symbol}${extensions}${bass}`;
+}
+
+// ============================================================================
+// Chord Sheets
+// ============================================================================
+
+/**
+ * Write a slide as a monospace chord sheet: each lyric line with a line of
+ * chords above it, every chord over the character it starts on.
+ *
+ * Where a chord is too long for the gap before the next one, the lyric line
+ * is widened to make room (with a hyphen inside a word). Chords at or past
+ * the end of a line stay on that line; chords past the end of the text go at
+ * the end of the last line.
+ *
+ * @example
+ * ```typescript
+ * renderChordsOverLyrics('Amazing grace', [
+ *   { chord: 'G', position: { start: 0, end: 0 } },
+ *   { chord: 'G7', position: { start: 8, end: 8 } },
+ * ]);
+ * // G       G7
+ * // Amazing grace
+ * ```
+ */
+export function renderChordsOverLyrics(text: string, chords: ChordInfo[]): string {
+  const lines = text.split('\n');
+  const lineChords: { column: number; chord: string }[][] = lines.map(() => []);
+
+  let lineStart = 0;
+  const starts = lines.map(line => {
+    const start = lineStart;
+    lineStart += line.length + 1;
+    return start;
+  });
+
+  for (const chord of chords) {
+    const position = Math.max(0, chord.position.start);
+    let index = starts.findIndex((start, i) => position <= start + lines[i].length);
+    if (index < 0) index = lines.length - 1;
+    const column = Math.min(position - starts[index], lines[index].length);
+    lineChords[index].push({ column, chord: chord.chord });
+  }
+
+  const output: string[] = [];
+  lines.forEach((line, i) => {
+    if (lineChords[i].length === 0) {
+      output.push(line);
+      return;
+    }
+
+    let chordLine = '';
+    let lyrics = line;
+    let shift = 0;
+
+    for (const { column, chord } of lineChords[i].sort((a, b) => a.column - b.column)) {
+      let at = column + shift;
+      // Keep a space between chords, widening the lyrics to match
+      const needed = chordLine.length > 0 ? chordLine.length + 1 : 0;
+      if (at < needed && at < lyrics.length) {
+        const inWord = /\S/.test(lyrics.charAt(at - 1)) && /\S/.test(lyrics.charAt(at));
+        lyrics = lyrics.slice(0, at) + (inWord ? '-' : ' ').repeat(needed - at) + lyrics.slice(at);
+        shift += needed - at;
+      }
+      at = Math.max(at, needed);
+      chordLine = chordLine.padEnd(at) + chord;
+    }
+
+    output.push(chordLine);
+    if (lyrics) output.push(lyrics);
+  });
+
+  return output.join('\n');
+}
@@ -0,0 +1,176 @@
+/**
+ * ChordPro import
+ *
+ * Reads ChordPro chord charts (as exported by SongSelect and most chord chart
+ * tools) into options for `createPresentation`.
+ */
+
+import {
+  splitSlides,
+  type CreatePresentationOptions,
+  type SectionInput,
+  type SlideLine,
+  type SlideSplitOptions,
+  type ChordPosition,
+} from './create.js';
+import { parseMusicKey } from './transpose.js';
+import { getSectionColor } from './lyrics.js';
+
+export interface ChordProImportOptions extends SlideSplitOptions {
+  /** Title to use when the chart has no `{title}` */
+  title?: string;
+}
+
+/** Short forms of the directives this importer understands */
+const DIRECTIVE_ALIASES: Record<string, string> = {
+  t: 'title',
+  st: 'subtitle',
+  c: 'comment',
+  ci: 'comment',
+  cb: 'comment',
+  comment_italic: 'comment',
+  comment_box: 'comment',
+  highlight: 'comment',
+  soc: 'start_of_chorus',
+  eoc: 'end_of_chorus',
+  sov: 'start_of_verse',
+  eov: 'end_of_verse',
+  sob: 'start_of_bridge',
+  eob: 'end_of_bridge',
+  sot: 'start_of_tab',
+  eot: 'end_of_tab',
+  sog: 'start_of_grid',
+  eog: 'end_of_grid',
+};
+
+const DIRECTIVE_PATTERN = /^\{\s*([\w-]+)\s*(?::\s*|\s+)?(.*?)\s*\}$/;
+
+/** Sections whose lines aren't lyrics */
+const SKIPPED_SECTIONS = ['tab', 'grid', 'abc', 'ly', 'svg', 'textblock'];
+
+/**
+ * Split a ChordPro lyric line into its text and the chords within it
+ */
+function parseLyricLine(line: string): SlideLine {
+  const chords: ChordPosition[] = [];
+  let text = '';
+  let last = 0;
+
+  for (const match of line.matchAll(/\[([^\]]*)\]/g)) {
+    text += line.slice(last, match.index);
+    const chord = match[1].trim();
+    // [*...] is an annotation, not a chord
+    if (chord && !chord.startsWith('*')) chords.push({ position: text.length, chord });
+    last = match.index! + match[0].length;
+  }
+  text += line.slice(last);
+
+  return { text: text.trimEnd(), chords };
+}
+
+/**
+ * Split a copyright line like "© 2004 Thankyou Music" into year and publisher
+ */
+export function parseCopyright(value: string): { year?: number; publisher?: string } {
+  const match = /^(?:©|\(c\)|copyright)?\s*(\d{4})\b[\s,]*(.*)$/i.exec(value.trim());
+  if (!match) return { publisher: value.trim() || undefined };
+  return { year: parseInt(match[1], 10), publisher: match[2].trim() || undefined };
+}
+
+/**
+ * Parse a ChordPro chart into options for `createPresentation`
+ *
+ * Sections come from `{start_of_verse}`, `{start_of_chorus}` and the like, or
+ * from `{comment}` lines outside of them (SongSelect marks "Verse 1" that
+ * way). Lyrics outside any section become numbered verses.
+ *
+ * @example
+ * ```typescript
+ * const source = await fs.readFile('Amazing Grace.cho', 'utf8');
+ * const presentation = createPresentation(parseChordPro(source, { linesPerSlide: 2 }));
+ * ```
+ */
+export function parseChordPro(source: string, options: ChordProImportOptions = {}): CreatePresentationOptions {
+  const metadata: Record<string, string[]> = {};
+  const sections: { name: string; lines: SlideLine[] }[] = [];
+  let current: { name: string; lines: SlideLine[] } | null = null;
+  let environment: string | null = null;
+  let verses = 0;
+
+  const startSection = (name: string) => {
+    // Keep numbering unlabelled verses after the labelled ones
+    const number = /^verse\s+(\d+)$/i.exec(name);
+    if (number) verses = Math.max(verses, parseInt(number[1], 10));
+    current = { name, lines: [] };
+    sections.push(current);
+    return current;
+  };
+  const nextVerse = () => `Verse ${++verses}`;
+
+  for (const rawLine of source.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trimEnd();
+    if (line.startsWith('#')) continue;
+
+    const directive = DIRECTIVE_PATTERN.exec(line.trim());
+    if (directive) {
+      let name = directive[1].toLowerCase();
+      name = DIRECTIVE_ALIASES[name] || name;
+      let value = directive[2] || '';
+
+      // ChordPro 6: {meta: artist Someone}
+      if (name === 'meta') {
+        [name, value] = [value.split(/\s+/)[0].toLowerCase(), value.replace(/^\S+\s*/, '')];
+      }
+
+      const start = /^start_of_(\w+)$/.exec(name);
+      const end = /^end_of_(\w+)$/.exec(name);
+      // ChordPro 6: {start_of_verse label="Verse 2"}
+      const label = /label="([^"]*)"/.exec(value)?.[1] ?? value;
+
+      if (start) {
+        environment = start[1];
+        if (SKIPPED_SECTIONS.includes(environment)) continue;
+        const fallback = environment === 'verse' ? nextVerse() : environment.charAt(0).toUpperCase() + environment.slice(1);
+        startSection(label || fallback);
+      } else if (end) {
+        environment = null;
+        current = null;
+      } else if (name === 'comment') {
+        // Inside a section a comment is a performance note, not a heading
+        if (!environment && value) startSection(value);
+      } else if (value) {
+        (metadata[name] ||= []).push(value);
+      }
+      continue;
+    }
+
+    if (environment && SKIPPED_SECTIONS.includes(environment)) continue;
+
+    const lyric = parseLyricLine(line);
+    if (!current) {
+      if (!lyric.text.trim() && !lyric.chords?.length) continue;
+      startSection(nextVerse());
+    }
+    current!.lines.push(lyric);
+  }
+
+  const sectionInputs: SectionInput[] = sections
+    .map(section => ({ name: section.name, slides: splitSlides(section.lines, options), color: getSectionColor(section.name) }))
+    .filter(section => section.slides.length > 0);
+
+  const first = (name: string) => metadata[name]?.[0];
+  const copyright = parseCopyright(first('copyright') || '');
+  const ccliNumber = parseInt(first('ccli') || '', 10);
+  const authors = [...(metadata.composer || []), ...(metadata.lyricist || [])];
+
+  return {
+    title: first('title') || options.title || 'Untitled',
+    artist: metadata.artist?.join(', '),
+    ccliNumber: Number.isNaN(ccliNumber) ? undefined : ccliNumber,
+    ccliAuthor: authors.length > 0 ? [...new Set(authors)].join(', ') : undefined,
+    copyrightYear: copyright.year,
+    publisher: copyright.publisher,
+    musicKey: parseMusicKey(first('key') || '') || undefined,
+    sections: sectionInputs,
+  };
+}
@@ -53,7 +53,7 @@ const DEFAULT_STROKE_COLOR: Color = {
 /**
  * Default group colors
  */
-const DEFAULT_GROUP_COLORS: Color[] = [
+export const DEFAULT_GROUP_COLORS: Color[] = [
   { red: 0, green: 0, blue: 0.998, alpha: 1 },           // Blue
   { red: 0.135, green: 1, blue: 0.025, alpha: 1 },       // Green
   { red: 0.989, green: 0.415, blue: 0.032, alpha: 1 },   // Orange
@@ -85,6 +85,60 @@ export interface SectionInput {
   color?: Color;
 }
 
+/** A line of lyrics, with chords at character positions within the line */
+export interface SlideLine {
+  text: string;
+  chords?: ChordPosition[];
+}
+
+/** How imported lyrics are divided into slides */
+export interface SlideSplitOptions {
+  /** Start a new slide at each blank line (default: true) */
+  splitOnBlankLines?: boolean;
+  /** Most lines on one slide; longer stanzas are split (default: no limit) */
+  linesPerSlide?: number;
+}
+
+/**
+ * Divide a section's lines into slides, keeping each chord on its syllable
+ *
+ * @example
+ * ```typescript
+ * splitSlides([{ text: 'Line 1' }, { text: 'Line 2' }, { text: '' }, { text: 'Line 3' }]);
+ * // [{ text: 'Line 1\nLine 2' }, { text: 'Line 3' }]
+ * ```
+ */
+export function splitSlides(lines: SlideLine[], options: SlideSplitOptions = {}): SlideInput[] {
+  const isBlank = (line: SlideLine) => !line.text.trim() && !line.chords?.length;
+
+  const stanzas: SlideLine[][] = [[]];
+  for (const line of lines) {
+    if (!isBlank(line)) {
+      stanzas[stanzas.length - 1].push(line);
+    } else if (options.splitOnBlankLines !== false && stanzas[stanzas.length - 1].length > 0) {
+      stanzas.push([]);
+    }
+  }
+
+  const size = options.linesPerSlide && options.linesPerSlide > 0 ? options.linesPerSlide : Infinity;
+  const slides: SlideInput[] = [];
+  for (const stanza of stanzas) {
+    for (let i = 0; i < stanza.length; i += size) {
+      const slideLines = stanza.slice(i, i + size);
+      const chords: ChordPosition[] = [];
+      let offset = 0;
+      for (const line of slideLines) {
+        for (const chord of line.chords || []) {
+          chords.push({ position: offset + chord.position, chord: chord.chord });
+        }
+        offset += line.text.length + 1;
+      }
+      slides.push({ text: slideLines.map(line => line.text).join('\n'), chords: chords.length > 0 ? chords : undefined });
+    }
+  }
+  return slides;
+}
+
 /** Music key enum values (matches ProPresenter MusicKey enum) */
 export enum MusicKey {
   A_FLAT = 0,
@@ -124,7 +178,21 @@ export interface MusicKeyConfig {
   scale?: MusicScale;
 }
 
-export interface CreatePresentationOptions {
+/**
+ * Font and layout of new slides
+ */
+export interface SlideStyle {
+  /** Font name (default: 'Arial') */
+  fontName?: string;
+  /** Font size (default: 72) */
+  fontSize?: number;
+  /** Slide size (default: 1920x1080) */
+  slideSize?: { width: number; height: number };
+  /** Text bounds (default: full screen with 100px top margin) */
+  textBounds?: { origin: { x: number; y: number }; size: { width: number; height: number } };
+}
+
+export interface CreatePresentationOptions extends SlideStyle {
   /** Song title */
   title: string;
   /** Artist name (optional) */
@@ -145,22 +213,19 @@ export interface CreatePresentationOptions {
   musicKey?: MusicKeyConfig;
   /** Sections/groups with their slides */
   sections: SectionInput[];
-  /** Font name (default: 'Arial') */
-  fontName?: string;
-  /** Font size (default: 72) */
-  fontSize?: number;
-  /** Slide size (default: 1920x1080) */
-  slideSize?: { width: number; height: number };
-  /** Text bounds (default: full screen with 100px top margin) */
-  textBounds?: { origin: { x: number; y: number }; size: { width: number; height: number } };
   /** Whether to create a default arrangement (default: true) */
   createArrangement?: boolean;
+  /**
+   * Group order of the default arrangement, as indexes into `sections`;
+   * sections can repeat (default: each section once, in order)
+   */
+  arrangement?: number[];
 }
 
 /**
  * Create a text element for a slide
  */
-function createTextElement(text: string, options: CreatePresentationOptions, chords?: ChordPosition[]): GraphicsElement {
+export function createTextElement(text: string, options: SlideStyle = {}, chords?: ChordPosition[]): GraphicsElement {
   const fontName = options.fontName || DEFAULT_FONT.name;
   const fontSize = options.fontSize || DEFAULT_FONT.size;
   const bounds = options.textBounds || DEFAULT_TEXT_BOUNDS;
@@ -252,7 +317,6 @@ function createTextElement(text: string, options: CreatePresentationOptions, cho
           pattern: 0,
           byWord: false
         },
-        underlineColor: null,
         paragraphStyle: {
           tabStops: [],
           textLists: [],
@@ -282,10 +346,8 @@ function createTextElement(text: string, options: CreatePresentationOptions, cho
           pattern: 0,
           byWord: false
         },
-        strikethroughColor: null,
         strokeWidth: -6, // Negative = outside stroke
         strokeColor: DEFAULT_STROKE_COLOR,
-        backgroundColor: null,
         textSolidFill: DEFAULT_TEXT_COLOR
       },
       shadow: {
@@ -315,7 +377,7 @@ function createTextElement(text: string, options: CreatePresentationOptions, cho
 /**
  * Create a slide with text
  */
-function createSlide(text: string, options: CreatePresentationOptions, chords?: ChordPosition[]): Slide {
+export function createSlide(text: string, options: SlideStyle = {}, chords?: ChordPosition[]): Slide {
   const slideSize = options.slideSize || DEFAULT_SLIDE_SIZE;
   const element = createTextElement(text, options, chords);
 
@@ -341,7 +403,7 @@ function createSlide(text: string, options: CreatePresentationOptions, chords?:
 /**
  * Create a cue (slide) for the presentation
  */
-function createCue(name: string, slideText: string, options: CreatePresentationOptions, chords?: ChordPosition[]): Cue {
+export function createCue(name: string, slideText: string, options: SlideStyle = {}, chords?: ChordPosition[]): Cue {
   const slide = createSlide(slideText, options, chords);
   
   // Wrap the slide in a PresentationSlide structure
@@ -356,16 +418,12 @@ function createCue(name: string, slideText: string, options: CreatePresentationO
   const action: Action = {
     uuid: generateUuid(),
     name: '',
-    label: null,
     delayTime: 0,
-    oldType: null,
     isEnabled: true,
-    layerIdentification: null,
     duration: 0,
     type: 11, // ACTION_TYPE_PRESENTATION_SLIDE
     slide: {
-      presentation: presentationSlide as any,
-      prop: null
+      presentation: presentationSlide as any
     }
   };
 
@@ -424,7 +482,7 @@ export function createPresentation(options: CreatePresentationOptions): Presenta
   // Process each section
   options.sections.forEach((section, sectionIndex) => {
     const groupUuid = generateUuid();
-    const cueIdentifiers: { string: string }[] = [];
+    const cueIdentifiers: NonNullable<CueGroup['cueIdentifiers']> = [];
 
     // Create cues for each slide in this section
     section.slides.forEach((slideInput, slideIndex) => {
@@ -448,7 +506,6 @@ export function createPresentation(options: CreatePresentationOptions): Presenta
           code: 0,
           controlIdentifier: ''
         },
-        applicationGroupIdentifier: null,
         applicationGroupName: ''
       },
       cueIdentifiers
@@ -510,11 +567,15 @@ export function createPresentation(options: CreatePresentationOptions): Presenta
 
   // Create default arrangement if requested
   if (options.createArrangement !== false) {
+    const order = options.arrangement || groupIdentifiers.map((_, index) => index);
     presentation.arrangements = [
       {
         uuid: generateUuid(),
         name: 'Default',
-        groupIdentifiers
+        groupIdentifiers: order.map(index => {
+          if (!groupIdentifiers[index]) throw new Error(`Arrangement refers to missing section ${index}`);
+          return groupIdentifiers[index];
+        })
       }
     ];
     presentation.selectedArrangement = presentation.arrangements[0].uuid;
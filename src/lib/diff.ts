@@ -0,0 +1,402 @@
+/**
+ * Presentation diff
+ *
+ * Compares two versions of a presentation the way a person would read them:
+ * groups, slides and arrangements are matched by UUID, and slide text is
+ * compared word by word, so an edit shows up as the words that changed rather
+ * than as re-encoded RTF.
+ */
+
+import {
+  getCueText,
+  getCueChords,
+  getCueNotes,
+  type Arrangement,
+  type Color,
+  type Cue,
+  type CueGroup,
+  type Presentation,
+} from './index.js';
+import { getPresentationKey } from './transpose.js';
+
+export type ChangeType =
+  | 'metadata'
+  | 'group-added'
+  | 'group-removed'
+  | 'group-renamed'
+  | 'group-color'
+  | 'group-moved'
+  | 'slide-added'
+  | 'slide-removed'
+  | 'slide-moved'
+  | 'slide-text'
+  | 'slide-chords'
+  | 'slide-notes'
+  | 'slide-enabled'
+  | 'arrangement-added'
+  | 'arrangement-removed'
+  | 'arrangement-renamed'
+  | 'arrangement-order'
+  | 'arrangement-selected';
+
+/** A run of words that are in both texts, or only one of them */
+export interface WordChange {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface PresentationChange {
+  type: ChangeType;
+  /** What changed, e.g. 'ccli.songNumber', 'Chorus', 'Chorus, slide 2' or 'Default' */
+  subject: string;
+  /** UUID of the group, cue or arrangement */
+  uuid?: string;
+  before?: unknown;
+  after?: unknown;
+  /** Word-level edit of a slide's text */
+  words?: WordChange[];
+}
+
+export interface PresentationDiff {
+  changes: PresentationChange[];
+  identical: boolean;
+}
+
+/** Presentation fields compared as metadata, by path */
+const METADATA_FIELDS: [string, (presentation: Presentation) => unknown][] = [
+  ['name', p => p.name || ''],
+  ['category', p => p.category || ''],
+  ['notes', p => p.notes || ''],
+  ['key', p => getPresentationKey(p) || ''],
+  ['ccli.songTitle', p => p.ccli?.songTitle || ''],
+  ['ccli.author', p => p.ccli?.author || ''],
+  ['ccli.artistCredits', p => p.ccli?.artistCredits || ''],
+  ['ccli.album', p => p.ccli?.album || ''],
+  ['ccli.publisher', p => p.ccli?.publisher || ''],
+  ['ccli.copyrightYear', p => Number(p.ccli?.copyrightYear || 0)],
+  ['ccli.songNumber', p => Number(p.ccli?.songNumber || 0)],
+  ['ccli.display', p => !!p.ccli?.display],
+];
+
+// ============================================================================
+// Sequences
+// ============================================================================
+
+/**
+ * Line up two sequences on their longest common subsequence
+ */
+function diffSequences(before: string[], after: string[]): { type: WordChange['type']; value: string }[] {
+  const lengths = before.map(() => new Array<number>(after.length + 1).fill(0));
+  lengths.push(new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: { type: WordChange['type']; value: string }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      result.push({ type: 'equal', value: before[i] });
+      i++;
+      j++;
+    } else if (j < after.length && (i === before.length || lengths[i][j + 1] > lengths[i + 1][j])) {
+      result.push({ type: 'added', value: after[j++] });
+    } else {
+      result.push({ type: 'removed', value: before[i++] });
+    }
+  }
+  return result;
+}
+
+/**
+ * Word-level diff of two texts. Whitespace belongs to the words around it,
+ * and runs of the same type are merged.
+ *
+ * @example
+ * ```typescript
+ * diffWords('How sweet the sound', 'How great the sound');
+ * // [{ type: 'equal', text: 'How ' }, { type: 'removed', text: 'sweet' },
+ * //  { type: 'added', text: 'great' }, { type: 'equal', text: ' the sound' }]
+ * ```
+ */
+export function diffWords(before: string, after: string): WordChange[] {
+  const tokens = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+  const changes: WordChange[] = [];
+  for (const { type, value } of diffSequences(tokens(before), tokens(after))) {
+    const last = changes[changes.length - 1];
+    if (last?.type === type) {
+      last.text += value;
+    } else {
+      changes.push({ type, text: value });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Items in both lists whose order relative to the others changed
+ */
+function movedItems(before: string[], after: string[]): Set<string> {
+  const common = new Set(after.filter(item => before.includes(item)));
+  const ops = diffSequences(before.filter(item => common.has(item)), after.filter(item => common.has(item)));
+  return new Set(ops.filter(op => op.type === 'added').map(op => op.value));
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+interface SlidePlace {
+  cue: Cue;
+  group: CueGroup;
+  index: number;
+}
+
+/**
+ * Each cue by UUID, with the first group that shows it
+ */
+function slidePlaces(presentation: Presentation): Map<string, SlidePlace> {
+  const cues = new Map((presentation.cues || []).map(cue => [cue.uuid?.string || '', cue]));
+  const places = new Map<string, SlidePlace>();
+  for (const group of presentation.cueGroups || []) {
+    (group.cueIdentifiers || []).forEach((id, index) => {
+      const cue = cues.get(id.string || '');
+      if (cue && !places.has(id.string!)) places.set(id.string!, { cue, group, index });
+    });
+  }
+  return places;
+}
+
+function slideName(place: SlidePlace): string {
+  return `${place.group.group?.name || 'Unnamed'}, slide ${place.index + 1}`;
+}
+
+function groupIds(presentation: Presentation): string[] {
+  return (presentation.cueGroups || []).map(group => group.group?.uuid?.string || '');
+}
+
+function formatColor(color: Color | null | undefined): string {
+  if (!color) return '';
+  return [color.red, color.green, color.blue, color.alpha].map(value => Number(value || 0).toFixed(3)).join(' ');
+}
+
+function chordList(cue: Cue): string[] {
+  return getCueChords(cue).map(chord => `${chord.chord}@${chord.position.start}`);
+}
+
+/**
+ * Compare two versions of a presentation
+ *
+ * Groups, cues and arrangements are matched by UUID, so a renamed group or an
+ * edited slide is a change rather than a removal and an addition. Moves are
+ * reported only for items whose order relative to the others changed.
+ *
+ * @example
+ * ```typescript
+ * const diff = diffPresentations(await readPresentation('old.pro'), await readPresentation('new.pro'));
+ * for (const change of diff.changes) console.log(change.type, change.subject);
+ * ```
+ */
+export function diffPresentations(before: Presentation, after: Presentation): PresentationDiff {
+  const changes: PresentationChange[] = [];
+
+  for (const [field, read] of METADATA_FIELDS) {
+    const [old, current] = [read(before), read(after)];
+    if (old !== current) changes.push({ type: 'metadata', subject: field, before: old, after: current });
+  }
+
+  // Groups
+  const oldGroups = new Map<string, CueGroup>((before.cueGroups || []).map(group => [group.group?.uuid?.string || '', group]));
+  const newGroups = new Map<string, CueGroup>((after.cueGroups || []).map(group => [group.group?.uuid?.string || '', group]));
+  const groupName = (uuid: string) => (newGroups.get(uuid) || oldGroups.get(uuid))?.group?.name || 'Unnamed';
+
+  for (const [uuid, group] of newGroups) {
+    const old = oldGroups.get(uuid);
+    const name = group.group?.name || 'Unnamed';
+    if (!old) {
+      changes.push({ type: 'group-added', subject: name, uuid });
+      continue;
+    }
+    const oldName = old.group?.name || 'Unnamed';
+    if (oldName !== name) changes.push({ type: 'group-renamed', subject: name, uuid, before: oldName, after: name });
+    const [oldColor, color] = [formatColor(old.group?.color), formatColor(group.group?.color)];
+    if (oldColor !== color) changes.push({ type: 'group-color', subject: name, uuid, before: oldColor, after: color });
+  }
+  for (const [uuid, group] of oldGroups) {
+    if (!newGroups.has(uuid)) changes.push({ type: 'group-removed', subject: group.group?.name || 'Unnamed', uuid });
+  }
+  const [oldOrder, newOrder] = [groupIds(before), groupIds(after)];
+  for (const uuid of movedItems(oldOrder, newOrder)) {
+    changes.push({ type: 'group-moved', subject: groupName(uuid), uuid, before: oldOrder.indexOf(uuid), after: newOrder.indexOf(uuid) });
+  }
+
+  // Slides
+  const oldSlides = slidePlaces(before);
+  const newSlides = slidePlaces(after);
+
+  for (const [uuid, place] of newSlides) {
+    const old = oldSlides.get(uuid);
+    const subject = slideName(place);
+    const text = getCueText(place.cue);
+    if (!old) {
+      changes.push({ type: 'slide-added', subject, uuid, after: text });
+      continue;
+    }
+
+    const oldGroup = old.group.group?.uuid?.string;
+    if (oldGroup !== place.group.group?.uuid?.string) {
+      changes.push({ type: 'slide-moved', subject, uuid, before: slideName(old), after: subject });
+    }
+
+    const oldText = getCueText(old.cue);
+    if (oldText !== text) {
+      changes.push({ type: 'slide-text', subject, uuid, before: oldText, after: text, words: diffWords(oldText, text) });
+    }
+    const [oldChords, chords] = [chordList(old.cue), chordList(place.cue)];
+    if (oldChords.join(' ') !== chords.join(' ')) {
+      changes.push({ type: 'slide-chords', subject, uuid, before: oldChords, after: chords });
+    }
+    const [oldNotes, notes] = [getCueNotes(old.cue), getCueNotes(place.cue)];
+    if (oldNotes !== notes) changes.push({ type: 'slide-notes', subject, uuid, before: oldNotes, after: notes });
+    const [oldEnabled, enabled] = [!!old.cue.isEnabled, !!place.cue.isEnabled];
+    if (oldEnabled !== enabled) changes.push({ type: 'slide-enabled', subject, uuid, before: oldEnabled, after: enabled });
+  }
+  for (const [uuid, place] of oldSlides) {
+    if (!newSlides.has(uuid)) changes.push({ type: 'slide-removed', subject: slideName(place), uuid, before: getCueText(place.cue) });
+  }
+
+  // Slides reordered within a group that's in both versions
+  for (const [uuid, group] of newGroups) {
+    const old = oldGroups.get(uuid);
+    if (!old) continue;
+    const ids = (cueGroup: CueGroup) => (cueGroup.cueIdentifiers || []).map(id => id.string || '');
+    for (const cue of movedItems(ids(old), ids(group))) {
+      const [from, to] = [oldSlides.get(cue), newSlides.get(cue)];
+      if (from && to && from.group === old && to.group === group) {
+        changes.push({ type: 'slide-moved', subject: slideName(to), uuid: cue, before: slideName(from), after: slideName(to) });
+      }
+    }
+  }
+
+  // Arrangements
+  const oldArrangements = new Map<string, Arrangement>((before.arrangements || []).map(a => [a.uuid?.string || '', a]));
+  const order = (arrangement: Arrangement) =>
+    (arrangement.groupIdentifiers || []).map(id => groupName(id.string || ''));
+
+  for (const arrangement of after.arrangements || []) {
+    const uuid = arrangement.uuid?.string || '';
+    const name = arrangement.name || 'Unnamed';
+    const old = oldArrangements.get(uuid);
+    if (!old) {
+      changes.push({ type: 'arrangement-added', subject: name, uuid, after: order(arrangement) });
+      continue;
+    }
+    if ((old.name || 'Unnamed') !== name) {
+      changes.push({ type: 'arrangement-renamed', subject: name, uuid, before: old.name || 'Unnamed', after: name });
+    }
+    const oldIds = (old.groupIdentifiers || []).map(id => id.string).join();
+    const ids = (arrangement.groupIdentifiers || []).map(id => id.string).join();
+    if (oldIds !== ids) changes.push({ type: 'arrangement-order', subject: name, uuid, before: order(old), after: order(arrangement) });
+  }
+  const newArrangementIds = new Set((after.arrangements || []).map(a => a.uuid?.string || ''));
+  for (const [uuid, arrangement] of oldArrangements) {
+    if (!newArrangementIds.has(uuid)) {
+      changes.push({ type: 'arrangement-removed', subject: arrangement.name || 'Unnamed', uuid, before: order(arrangement) });
+    }
+  }
+
+  const arrangementName = (presentation: Presentation) => {
+    const uuid = presentation.selectedArrangement?.string;
+    return uuid ? (presentation.arrangements || []).find(a => a.uuid?.string === uuid)?.name || uuid : '';
+  };
+  if ((before.selectedArrangement?.string || '') !== (after.selectedArrangement?.string || '')) {
+    changes.push({ type: 'arrangement-selected', subject: arrangementName(after), before: arrangementName(before), after: arrangementName(after) });
+  }
+
+  return { changes, identical: changes.length === 0 };
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Mark up a word diff the way `git diff --word-diff` does: [-removed-]{+added+}
+ */
+export function formatWordDiff(words: WordChange[]): string {
+  return words.map(word => {
+    if (word.type === 'added') return `{+${word.text}+}`;
+    if (word.type === 'removed') return `[-${word.text}-]`;
+    return word.text;
+  }).join('');
+}
+
+function quote(value: unknown): string {
+  if (Array.isArray(value)) return value.join(', ') || '(none)';
+  if (typeof value === 'string') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Describe a diff in lines of text, one change per line (slide text edits
+ * take one line per changed line of text)
+ */
+export function formatPresentationDiff(diff: PresentationDiff): string {
+  if (diff.identical) return 'No changes';
+
+  const lines: string[] = [];
+  for (const change of diff.changes) {
+    const { subject, before, after } = change;
+    switch (change.type) {
+      case 'metadata':
+        lines.push(`~ ${subject}: ${quote(before)} → ${quote(after)}`);
+        break;
+      case 'group-added':
+      case 'arrangement-added':
+        lines.push(`+ ${change.type.split('-')[0]} ${subject}${after ? `: ${quote(after)}` : ''}`);
+        break;
+      case 'group-removed':
+      case 'arrangement-removed':
+        lines.push(`- ${change.type.split('-')[0]} ${subject}${before ? `: ${quote(before)}` : ''}`);
+        break;
+      case 'slide-added':
+        lines.push(`+ ${subject}: ${quote(after)}`);
+        break;
+      case 'slide-removed':
+        lines.push(`- ${subject}: ${quote(before)}`);
+        break;
+      case 'group-moved':
+        lines.push(`↕ group ${subject}: position ${Number(before) + 1} → ${Number(after) + 1}`);
+        break;
+      case 'slide-moved':
+        lines.push(`↕ ${subject}: was ${before}`);
+        break;
+      case 'slide-text': {
+        // Only the lines of text that changed, with their words marked
+        const marked = formatWordDiff(change.words || []).split('\n').filter(line => /\[-|\{\+/.test(line));
+        lines.push(`~ ${subject}:`, ...marked.map(line => `    ${line}`));
+        break;
+      }
+      case 'group-renamed':
+      case 'arrangement-renamed':
+        lines.push(`~ ${change.type.split('-')[0]} ${quote(before)} renamed to ${quote(after)}`);
+        break;
+      case 'group-color':
+        lines.push(`~ group ${subject} color: ${before} → ${after}`);
+        break;
+      case 'arrangement-order':
+        lines.push(`~ arrangement ${subject}: ${quote(before)} → ${quote(after)}`);
+        break;
+      case 'arrangement-selected':
+        lines.push(`~ selected arrangement: ${quote(before || '(none)')} → ${quote(after || '(none)')}`);
+        break;
+      default:
+        // Chords, notes, enabled
+        lines.push(`~ ${subject} ${change.type.replace('slide-', '')}: ${quote(before)} → ${quote(after)}`);
+    }
+  }
+  return lines.join('\n');
+}
@@ -6,61 +6,189 @@
 
 import protobuf from 'protobufjs';
 import * as fs from 'fs/promises';
+import { existsSync, readdirSync } from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import {
+  parseRtf,
+  serializeRtf,
+  getRtfText,
+  createRtfDocument,
+  setRtfText,
+  computeTextEdit,
+  mapTextOffset,
+  type TextEdit,
+} from './rtf.js';
+import { attachUnknownFields, hasUnknownFields, injectUnknownFields } from './wire.js';
+import { detectFileVersion, formatFileVersion, LATEST_PROTO_VERSION } from './version.js';
+import type { rv } from '../generated/types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Cached protobuf root
-let protoRoot: protobuf.Root | null = null;
+const generatedDir = path.resolve(__dirname, '../generated');
 
 /**
- * Load and cache the protobuf definitions
+ * List the `proto-<version>` descriptors written to `src/generated` by
+ * `npm run generate`, oldest first
  */
-export async function loadProtoDefinitions(): Promise<protobuf.Root> {
-  if (protoRoot) return protoRoot;
+function listBundledVersions(): string[] {
+  const entries = existsSync(generatedDir) ? readdirSync(generatedDir) : [];
+  const versions = entries
+    .filter(name => !name.endsWith('.d.ts'))
+    .map(name => /^proto-(.+)\.[jt]s$/.exec(name)?.[1])
+    .filter((v): v is string => !!v);
+  return [...new Set(versions)].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
 
-  const protoDir = path.resolve(__dirname, '../../proto/Proto 19beta');
-  
-  // Load the main proto files
-  protoRoot = new protobuf.Root();
-  protoRoot.resolvePath = (origin, target) => {
+/**
+ * Schema versions bundled in `src/generated` (from `proto/Proto <version>`)
+ */
+export const PROTO_VERSIONS: readonly string[] = listBundledVersions();
+
+export type ProtoVersion = typeof PROTO_VERSIONS[number];
+
+/**
+ * Pseudo-version that picks the schema from each file's `applicationInfo`
+ */
+export const AUTO_PROTO_VERSION = 'auto';
+
+let defaultProtoVersion: string = AUTO_PROTO_VERSION;
+
+// Cached protobuf roots, one per schema version
+const protoRoots = new Map<string, Promise<protobuf.Root>>();
+
+/**
+ * Set the schema version used when a call doesn't name one
+ */
+export function setDefaultProtoVersion(version: string): void {
+  defaultProtoVersion = version;
+}
+
+/**
+ * Get the schema version used when a call doesn't name one
+ */
+export function getDefaultProtoVersion(): string {
+  return defaultProtoVersion;
+}
+
+/**
+ * Turn a requested schema version into a concrete one. With 'auto', the
+ * version is detected from the file's header, or the newest schema is used.
+ */
+export function resolveProtoVersion(version: string = defaultProtoVersion, buffer?: Uint8Array): string {
+  if (version !== AUTO_PROTO_VERSION) return version;
+  return buffer ? detectFileVersion(buffer).protoVersion : LATEST_PROTO_VERSION;
+}
+
+// Directory of .proto files that overrides the bundled schemas
+let protoDirectoryOverride: string | null = null;
+
+/**
+ * Load schemas from .proto files instead of the bundled descriptors. The
+ * directory may hold `Proto <version>` folders or the .proto files directly.
+ * Pass null to go back to the bundled schemas.
+ */
+export function setProtoDirectory(dir: string | null): void {
+  protoDirectoryOverride = dir ? path.resolve(dir) : null;
+  protoRoots.clear();
+}
+
+/**
+ * Get the directory holding the .proto files for a schema version. Throws if
+ * the override directory has neither a folder for the version nor .proto
+ * files of its own.
+ */
+export function getProtoDirectory(version: string = defaultProtoVersion): string {
+  const folder = `Proto ${resolveProtoVersion(version)}`;
+  if (protoDirectoryOverride) {
+    const versioned = path.join(protoDirectoryOverride, folder);
+    if (existsSync(versioned)) return versioned;
+
+    const entries = existsSync(protoDirectoryOverride) ? readdirSync(protoDirectoryOverride) : [];
+    if (!entries.some(name => name.startsWith('Proto ')) && entries.some(name => name.endsWith('.proto'))) {
+      return protoDirectoryOverride;
+    }
+    throw new Error(`No "${folder}" folder or .proto files in ${protoDirectoryOverride}`);
+  }
+  return path.resolve(__dirname, '../../proto', folder);
+}
+
+/**
+ * Load every .proto file in a directory into a new root
+ */
+export async function loadProtoFiles(protoDir: string): Promise<protobuf.Root> {
+  const files = (await fs.readdir(protoDir)).filter(f => f.endsWith('.proto')).sort();
+  if (files.length === 0) {
+    throw new Error(`No .proto files in ${protoDir}`);
+  }
+
+  const root = new protobuf.Root();
+  root.resolvePath = (origin, target) => {
     return path.resolve(protoDir, target);
   };
+  await root.load(files.map(f => path.join(protoDir, f)));
+  root.resolveAll();
+  return root;
+}
 
-  // Load key proto files
-  const protoFiles = [
-    'presentation.proto',
-    'propresenter.proto',
-    'action.proto',
-    'slide.proto',
-    'graphicsData.proto',
-    'presentationSlide.proto',
-    'cue.proto',
-    'groups.proto',
-    'basicTypes.proto',
-    'effects.proto',
-    'background.proto',
-    'rvtimestamp.proto',
-  ];
-
-  for (const file of protoFiles) {
-    try {
-      await protoRoot.load(path.join(protoDir, file));
-    } catch (e) {
-      // Some files may have already been loaded as dependencies
+/**
+ * Load the precompiled descriptor generated by `npm run generate`, if present
+ */
+async function loadBundledRoot(version: string): Promise<protobuf.Root | null> {
+  let descriptor: protobuf.INamespace;
+  try {
+    descriptor = (await import(`../generated/proto-${version}.js`)).default;
+  } catch (e: any) {
+    if (e.code === 'ERR_MODULE_NOT_FOUND' || e.code === 'MODULE_NOT_FOUND') return null;
+    throw e;
+  }
+  const root = protobuf.Root.fromJSON(descriptor);
+  root.resolveAll();
+  return root;
+}
+
+async function loadRoot(version: string): Promise<protobuf.Root> {
+  try {
+    if (!protoDirectoryOverride) {
+      const bundled = await loadBundledRoot(version);
+      if (bundled) return bundled;
     }
+
+    // Fall back to the .proto sources (override, or the proto submodule)
+    const protoDir = getProtoDirectory(version);
+    if (!existsSync(protoDir)) {
+      throw new Error(
+        `no bundled schema and no .proto files at ${protoDir} ` +
+        `(bundled: ${PROTO_VERSIONS.join(', ') || 'none'}; to bundle them: git submodule update --init && npm run generate)`
+      );
+    }
+    return await loadProtoFiles(protoDir);
+  } catch (e: any) {
+    throw new Error(`Failed to load proto definitions for ProPresenter ${version}: ${e.message}`);
   }
+}
 
-  return protoRoot;
+/**
+ * Load and cache the protobuf definitions for a schema version
+ */
+export async function loadProtoDefinitions(version: string = defaultProtoVersion): Promise<protobuf.Root> {
+  version = resolveProtoVersion(version);
+  let root = protoRoots.get(version);
+  if (!root) {
+    root = loadRoot(version);
+    protoRoots.set(version, root);
+    // Don't cache failures, so a fixed checkout can be retried
+    root.catch(() => protoRoots.delete(version));
+  }
+  return root;
 }
 
 /**
  * Get a protobuf message type by name
  */
-export async function getMessageType(typeName: string): Promise<protobuf.Type> {
-  const root = await loadProtoDefinitions();
+export async function getMessageType(typeName: string, version?: string): Promise<protobuf.Type> {
+  const root = await loadProtoDefinitions(version);
   return root.lookupType(typeName);
 }
 
@@ -68,155 +196,124 @@ export async function getMessageType(typeName: string): Promise<protobuf.Type> {
 // Presentation File Operations
 // ============================================================================
 
-export interface Presentation {
-  applicationInfo?: any;
-  uuid?: { string: string };
-  name?: string;
-  lastDateUsed?: any;
-  lastModifiedDate?: any;
-  category?: string;
-  notes?: string;
-  background?: any;
-  selectedArrangement?: { string: string };
-  arrangements?: any[];
-  cueGroups?: CueGroup[];
-  cues?: Cue[];
-  ccli?: CCLI;
-  bibleReference?: any;
-  timeline?: any;
-  transition?: any;
-  [key: string]: any;
-}
-
-export interface CueGroup {
-  group?: {
-    uuid?: { string: string };
-    name?: string;
-    color?: Color;
-  };
-  cueIdentifiers?: { string: string }[];
-}
+// Message types are generated from the schema by `npm run generate` (see
+// scripts/generate-proto.ts); the names below are kept for existing code.
 
-export interface Cue {
-  uuid?: { string: string };
-  name?: string;
-  hotKey?: any;
-  actions?: Action[];
-  isEnabled?: boolean;
-  [key: string]: any;
-}
+export type Presentation = rv.data.Presentation;
+export type CueGroup = rv.data.Presentation.CueGroup;
+export type Cue = rv.data.Cue;
+export type Action = rv.data.Action;
+export type SlideAction = rv.data.Action.SlideType;
+/**
+ * A slide as found on a cue: either a bare slide or a presentation slide
+ * that wraps one in `baseSlide`
+ */
+export type Slide = rv.data.Slide & rv.data.PresentationSlide;
+export type SlideElement = rv.data.Slide.Element;
+export type GraphicsElement = rv.data.Graphics.Element;
+export type TextElement = rv.data.Graphics.Text;
+export type Color = rv.data.Color;
+export type CCLI = rv.data.Presentation.CCLI;
 
-export interface Action {
-  uuid?: { string: string };
-  name?: string;
-  label?: any;
-  type?: number;
-  slide?: SlideAction;
-  [key: string]: any;
-}
+/**
+ * Options used to turn decoded messages into plain objects. Unset scalars are
+ * left out rather than filled with defaults, which encoding would write out
+ * as fields the original file never had.
+ */
+const TO_OBJECT_OPTIONS: protobuf.IConversionOptions = {
+  longs: String,
+  bytes: Buffer,
+  arrays: true,
+  objects: true,
+};
 
-export interface SlideAction {
-  presentation?: Slide;
-  prop?: any;
+export interface CodecOptions {
+  /**
+   * Keep fields that aren't in the loaded schema (stored on each object under
+   * `$unknownFields`) and write them back on save (default: true)
+   */
+  preserveUnknownFields?: boolean;
+  /** Schema version to use, or 'auto' (default: see `setDefaultProtoVersion`) */
+  protoVersion?: string;
+  /** Called with warnings such as a file being newer than the schema (default: console.warn) */
+  onWarning?: (message: string) => void;
 }
 
-export interface Slide {
-  elements?: SlideElement[];
-  size?: { width: number; height: number };
-  uuid?: { string: string };
-  backgroundColor?: Color;
-  [key: string]: any;
-}
+// Schema version each decoded object was read with, reused when writing it back
+const decodedVersions = new WeakMap<object, string>();
 
-export interface SlideElement {
-  element?: GraphicsElement;
-  buildIn?: any;
-  buildOut?: any;
-  [key: string]: any;
+/**
+ * Get the schema version an object was decoded with, if it came from
+ * `decodeMessage`
+ */
+export function getDecodedProtoVersion(object: object): string | undefined {
+  return decodedVersions.get(object);
 }
 
-export interface GraphicsElement {
-  uuid?: { string: string };
-  name?: string;
-  bounds?: { origin: { x: number; y: number }; size: { width: number; height: number } };
-  rotation?: number;
-  opacity?: number;
-  text?: TextElement;
-  fill?: any;
-  stroke?: any;
-  [key: string]: any;
-}
+/**
+ * Decode a protobuf message into a plain object
+ */
+export async function decodeMessage<T = any>(typeName: string, buffer: Uint8Array, options: CodecOptions = {}): Promise<T> {
+  let version = options.protoVersion || defaultProtoVersion;
+  if (version === AUTO_PROTO_VERSION) {
+    const detected = detectFileVersion(buffer);
+    version = detected.protoVersion;
+    if (detected.newerThanSchema) {
+      const warn = options.onWarning || ((message: string) => console.warn(`Warning: ${message}`));
+      warn(
+        `${formatFileVersion(detected)} is newer than the bundled ${version} schema; ` +
+        `fields added since then are kept as unknown fields but can't be read`
+      );
+    }
+  }
 
-export interface TextElement {
-  attributes?: any;
-  shadow?: any;
-  rtfData?: Uint8Array | Buffer;
-  verticalAlignment?: number;
-  scaleBehavior?: number;
-  margins?: any;
-  [key: string]: any;
+  const MessageType = await getMessageType(typeName, version);
+  const message = MessageType.decode(buffer);
+  const object = MessageType.toObject(message, TO_OBJECT_OPTIONS);
+  if (options.preserveUnknownFields !== false) {
+    attachUnknownFields(MessageType, object, buffer);
+  }
+  decodedVersions.set(object, version);
+  return object as T;
 }
 
-export interface Color {
-  red?: number;
-  green?: number;
-  blue?: number;
-  alpha?: number;
-}
+/**
+ * Encode a plain object as a protobuf message
+ */
+export async function encodeMessage(typeName: string, data: object, options: CodecOptions = {}): Promise<Uint8Array> {
+  let version = options.protoVersion || defaultProtoVersion;
+  if (version === AUTO_PROTO_VERSION) {
+    version = decodedVersions.get(data) || LATEST_PROTO_VERSION;
+  }
 
-export interface CCLI {
-  author?: string;
-  artistCredits?: string;
-  songTitle?: string;
-  publisher?: string;
-  copyrightYear?: number;
-  songNumber?: number;
-  display?: boolean;
-  album?: string;
-  artwork?: Uint8Array;
+  const MessageType = await getMessageType(typeName, version);
+  const errMsg = MessageType.verify(data);
+  if (errMsg) throw new Error(`Invalid ${typeName.replace(/^rv\.data\./, '').toLowerCase()}: ${errMsg}`);
+
+  const message = MessageType.create(data);
+  const buffer = MessageType.encode(message).finish();
+  if (options.preserveUnknownFields !== false && hasUnknownFields(data)) {
+    return injectUnknownFields(MessageType, data, buffer);
+  }
+  return buffer;
 }
 
 /**
  * Read a ProPresenter presentation file
  */
-export async function readPresentation(filePath: string): Promise<Presentation> {
-  const PresentationType = await getMessageType('rv.data.Presentation');
+export async function readPresentation(filePath: string, options: CodecOptions = {}): Promise<Presentation> {
   const buffer = await fs.readFile(filePath);
-  const message = PresentationType.decode(buffer);
-  return PresentationType.toObject(message, {
-    longs: String,
-    bytes: Buffer,
-    defaults: true,
-  }) as Presentation;
+  return decodeMessage<Presentation>('rv.data.Presentation', buffer, options);
 }
 
 /**
  * Write a ProPresenter presentation file
  */
-export async function writePresentation(filePath: string, presentation: Presentation): Promise<void> {
-  const PresentationType = await getMessageType('rv.data.Presentation');
-  const errMsg = PresentationType.verify(presentation);
-  if (errMsg) throw new Error(`Invalid presentation: ${errMsg}`);
-  
-  const message = PresentationType.create(presentation);
-  const buffer = PresentationType.encode(message).finish();
+export async function writePresentation(filePath: string, presentation: Presentation, options: CodecOptions = {}): Promise<void> {
+  const buffer = await encodeMessage('rv.data.Presentation', presentation, options);
   await fs.writeFile(filePath, buffer);
 }
 
-/**
- * Read a ProPresenter playlist file
- */
-export async function readPlaylist(filePath: string): Promise<any> {
-  const PlaylistType = await getMessageType('rv.data.PlaylistDocument');
-  const buffer = await fs.readFile(filePath);
-  const message = PlaylistType.decode(buffer);
-  return PlaylistType.toObject(message, {
-    longs: String,
-    bytes: Buffer,
-    defaults: true,
-  });
-}
-
 // ============================================================================
 // RTF Utilities
 // ============================================================================
@@ -225,80 +322,35 @@ export async function readPlaylist(filePath: string): Promise<any> {
  * Extract plain text from RTF data
  */
 export function rtfToText(rtfData: Uint8Array | Buffer | string): string {
-  let rtf: string;
-  if (typeof rtfData === 'string') {
-    rtf = rtfData;
-  } else if (Buffer.isBuffer(rtfData)) {
-    rtf = rtfData.toString('utf-8');
-  } else {
-    rtf = Buffer.from(rtfData).toString('utf-8');
-  }
-
-  // Simple RTF to text conversion
-  // Strip RTF control words and groups
-  let text = rtf
-    // Remove RTF header
-    .replace(/^\{\\rtf1[^}]*\}?/, '')
-    // Handle line breaks
-    .replace(/\\par\b/g, '\n')
-    .replace(/\\line\b/g, '\n')
-    // Remove font tables
-    .replace(/\{\\fonttbl[^}]*\}/g, '')
-    // Remove color tables
-    .replace(/\{\\colortbl[^}]*\}/g, '')
-    // Remove stylesheet
-    .replace(/\{\\stylesheet[^}]*\}/g, '')
-    // Remove other control words
-    .replace(/\\[a-z]+[-]?\d*\s?/gi, '')
-    // Remove groups
-    .replace(/[{}]/g, '')
-    // Clean up whitespace
-    .replace(/\s+/g, ' ')
-    .trim();
-
-  // Decode hex characters
-  text = text.replace(/\\'([0-9a-f]{2})/gi, (_, hex) => {
-    return String.fromCharCode(parseInt(hex, 16));
-  });
-
-  // Clean up ProPresenter specific formatting artifacts
-  text = text.replace(/^\\?\*;*\s*/g, '');        // Remove leading \*;;; or *;;; 
-  text = text.replace(/\\\s*$/g, '');             // Remove trailing backslashes
-  text = text.replace(/\\ /g, '\n');              // Convert backslash-space to newline
-  text = text.trim();
-
-  return text;
+  return getRtfText(parseRtf(rtfData));
 }
 
 /**
  * Convert plain text to simple RTF
  */
 export function textToRtf(text: string, fontName = 'Arial', fontSize = 48): string {
-  // Escape special characters
-  const escaped = text
-    .replace(/\\/g, '\\\\')
-    .replace(/\{/g, '\\{')
-    .replace(/\}/g, '\\}')
-    .replace(/\n/g, '\\par ');
-
-  // Simple RTF with one font
-  return `{\\rtf1\\ansi\\deff0{\\fonttbl{\\f0 ${fontName};}}\\f0\\fs${fontSize * 2} ${escaped}}`;
+  return serializeRtf(createRtfDocument(text, { fontName, fontSize }));
 }
 
 // ============================================================================
 // Slide Text Utilities
 // ============================================================================
 
+/**
+ * Get the elements of a slide
+ */
+export function getSlideElements(slide: Slide): SlideElement[] {
+  // Check both slide.elements and slide.baseSlide.elements
+  return slide.elements || (slide as any).baseSlide?.elements || [];
+}
+
 /**
  * Get all text elements from a slide
  */
 export function getSlideTextElements(slide: Slide): TextElement[] {
   const textElements: TextElement[] = [];
   
-  // Check both slide.elements and slide.baseSlide.elements
-  const elements = slide.elements || (slide as any).baseSlide?.elements || [];
-  
-  for (const element of elements) {
+  for (const element of getSlideElements(slide)) {
     if (element.element?.text?.rtfData) {
       textElements.push(element.element.text);
     }
@@ -321,8 +373,7 @@ export function getSlideText(slide: Slide): string {
   }
   
   // Fallback: check element.name which sometimes contains the text
-  const elements = slide.elements || (slide as any).baseSlide?.elements || [];
-  for (const element of elements) {
+  for (const element of getSlideElements(slide)) {
     if (element.element?.name && element.element.name.trim().length > 0) {
       let text = element.element.name;
       // Clean up ProPresenter formatting artifacts
@@ -358,15 +409,55 @@ export function getCueText(cue: Cue): string {
   return getSlideText(slide);
 }
 
+/**
+ * Keep a text element's custom attribute ranges (chords, styling) in step
+ * with an edit to its text
+ */
+function remapCustomAttributes(textElement: TextElement, edit: TextEdit, textLength: number): void {
+  const attributes = textElement.attributes;
+  if (!attributes?.customAttributes) return;
+
+  attributes.customAttributes = attributes.customAttributes.filter(attr => {
+    if (!attr.range) return true;
+    const oldStart = Number(attr.range.start || 0);
+    const oldEnd = Number(attr.range.end || 0);
+    const start = Math.min(mapTextOffset(edit, oldStart), textLength);
+    const end = Math.min(Math.max(mapTextOffset(edit, oldEnd), start), textLength);
+    attr.range.start = start;
+    attr.range.end = end;
+    // Chords stay anchored even when their text is gone; empty style ranges are dropped
+    return attr.chord || end > start || oldEnd === oldStart;
+  });
+}
+
+/**
+ * Replace the text of a graphics element, keeping its RTF styling, chord
+ * ranges and name in step with the new text
+ */
+export function setElementText(element: GraphicsElement, text: string): boolean {
+  if (!element.text?.rtfData) return false;
+
+  const doc = parseRtf(element.text.rtfData);
+  const oldText = getRtfText(doc);
+  element.text.rtfData = Buffer.from(serializeRtf(setRtfText(doc, text)));
+  remapCustomAttributes(element.text, computeTextEdit(oldText, text), text.length);
+
+  // ProPresenter shows the element name as the slide's thumbnail text, but
+  // names given by the user (e.g. "Translation") are left alone
+  const normalize = (value: string) => value.replace(/\s+/g, ' ').trim();
+  if (!element.name || normalize(element.name) === normalize(oldText)) {
+    element.name = text;
+  }
+  return true;
+}
+
 /**
  * Set text on a slide's first text element
  */
 export function setSlideText(slide: Slide, text: string): boolean {
-  const elements = slide.elements || (slide as any).baseSlide?.elements || [];
-  for (const element of elements) {
+  for (const element of getSlideElements(slide)) {
     if (element.element?.text?.rtfData) {
-      element.element.text.rtfData = Buffer.from(textToRtf(text));
-      return true;
+      return setElementText(element.element, text);
     }
   }
   return false;
@@ -381,6 +472,111 @@ export function setCueText(cue: Cue, text: string): boolean {
   return setSlideText(slide, text);
 }
 
+// ============================================================================
+// Element Utilities
+// ============================================================================
+
+/**
+ * An element on a slide, addressed by name or by its index in the slide
+ */
+export type ElementRef = string | number;
+
+export interface ElementSummary {
+  index: number;
+  uuid?: string;
+  name: string;
+  bounds?: GraphicsElement['bounds'];
+  hasText: boolean;
+  text: string;
+}
+
+/**
+ * Find an element on a slide by index or by name (case-insensitive). An index
+ * past the last element is tried as a name, so elements named "1" or "2024"
+ * can still be found.
+ */
+export function findSlideElement(slide: Slide, ref: ElementRef): GraphicsElement | null {
+  const elements = getSlideElements(slide);
+  if (typeof ref === 'number' && ref < elements.length) {
+    return elements[ref]?.element || null;
+  }
+  const name = String(ref).toLowerCase();
+  return elements.find(e => (e.element?.name || '').toLowerCase() === name)?.element || null;
+}
+
+/**
+ * Get the text of a single graphics element
+ */
+export function getElementText(element: GraphicsElement): string {
+  return element.text?.rtfData ? rtfToText(element.text.rtfData) : '';
+}
+
+/**
+ * List the elements of a slide with their names, bounds and text
+ */
+export function listSlideElements(slide: Slide): ElementSummary[] {
+  return getSlideElements(slide).map((e, index) => ({
+    index,
+    uuid: e.element?.uuid?.string,
+    name: e.element?.name || '',
+    bounds: e.element?.bounds,
+    hasText: !!e.element?.text?.rtfData,
+    text: e.element ? getElementText(e.element) : '',
+  }));
+}
+
+/**
+ * Get the text of one element on a cue's slide
+ */
+export function getCueElementText(cue: Cue, ref: ElementRef): string {
+  const slide = getCueSlide(cue);
+  const element = slide && findSlideElement(slide, ref);
+  return element ? getElementText(element) : '';
+}
+
+/**
+ * Set the text of one element on a cue's slide
+ */
+export function setCueElementText(cue: Cue, ref: ElementRef, text: string): boolean {
+  const slide = getCueSlide(cue);
+  const element = slide && findSlideElement(slide, ref);
+  return element ? setElementText(element, text) : false;
+}
+
+/**
+ * Rewrite the text of an element on every cue of a presentation. The
+ * transform returns the new text, or null/undefined to leave a cue alone.
+ * Without an element reference, every text element is visited.
+ *
+ * @returns Number of elements changed
+ */
+export function updatePresentationText(
+  presentation: Presentation,
+  transform: (text: string, cue: Cue, element: GraphicsElement) => string | null | undefined,
+  ref?: ElementRef
+): number {
+  let changed = 0;
+
+  for (const cue of getCues(presentation)) {
+    const slide = getCueSlide(cue);
+    if (!slide) continue;
+
+    const elements = ref === undefined
+      ? getSlideElements(slide).map(e => e.element).filter((e): e is GraphicsElement => !!e?.text?.rtfData)
+      : [findSlideElement(slide, ref)].filter((e): e is GraphicsElement => !!e);
+
+    for (const element of elements) {
+      const text = getElementText(element);
+      const next = transform(text, cue, element);
+      if (next !== null && next !== undefined && next !== text && setElementText(element, next)) {
+        changed++;
+      }
+    }
+  }
+
+  return changed;
+}
+
 // ============================================================================
 // Presentation Utilities
 // ============================================================================
@@ -394,8 +590,11 @@ export function getCues(presentation: Presentation): Cue[] {
 
 /**
  * Get cues organized by group
+ *
+ * Group entries that point at a missing cue are skipped, or with `strict`
+ * throw; `lintPresentation` reports and repairs them.
  */
-export function getCuesByGroup(presentation: Presentation): Map<string, Cue[]> {
+export function getCuesByGroup(presentation: Presentation, options: { strict?: boolean } = {}): Map<string, Cue[]> {
   const cueMap = new Map<string, Cue>();
   for (const cue of presentation.cues || []) {
     if (cue.uuid?.string) {
@@ -410,8 +609,12 @@ export function getCuesByGroup(presentation: Presentation): Map<string, Cue[]> {
     const cues: Cue[] = [];
     
     for (const id of group.cueIdentifiers || []) {
-      const cue = cueMap.get(id.string);
-      if (cue) cues.push(cue);
+      const cue = id.string && cueMap.get(id.string);
+      if (cue) {
+        cues.push(cue);
+      } else if (options.strict) {
+        throw new Error(`Group "${groupName}" refers to missing cue ${id.string || '(empty)'}`);
+      }
     }
     
     result.set(groupName, cues);
@@ -476,7 +679,7 @@ export function getChords(textElement: TextElement): ChordInfo[] {
     if (attr.chord && attr.range) {
       chords.push({
         chord: attr.chord,
-        position: { start: attr.range.start, end: attr.range.end }
+        position: { start: attr.range.start || 0, end: attr.range.end || 0 }
       });
     }
   }
@@ -490,7 +693,7 @@ export function getChords(textElement: TextElement): ChordInfo[] {
 export function getSlideChords(slide: Slide): ChordInfo[] {
   const allChords: ChordInfo[] = [];
   
-  for (const element of slide.elements || []) {
+  for (const element of getSlideElements(slide)) {
     if (element.element?.text) {
       allChords.push(...getChords(element.element.text));
     }
@@ -508,6 +711,20 @@ export function getCueChords(cue: Cue): ChordInfo[] {
   return getSlideChords(slide);
 }
 
+/**
+ * Text and chords of each text element on a cue's slide, in element order.
+ * Chord positions count within their own element's text, so slides with a
+ * translation or stage text are rendered one element at a time.
+ */
+export function getCueTextBlocks(cue: Cue): { text: string; chords: ChordInfo[] }[] {
+  const slide = getCueSlide(cue);
+  const blocks = (slide ? getSlideTextElements(slide) : [])
+    .map(element => ({ text: rtfToText(element.rtfData!), chords: getChords(element) }))
+    .filter(block => block.text.length > 0);
+  // Slides without RTF may keep their text in the element name
+  return blocks.length > 0 ? blocks : [{ text: getCueText(cue), chords: [] }];
+}
+
 // ============================================================================
 // Presenter Notes Utilities
 // ============================================================================
@@ -599,6 +816,7 @@ export function getMusicKey(presentation: Presentation): { original?: string; cu
   if (presentation.music?.userMusicKey) {
     result.current = presentation.music.userMusicKey;
   }
+  // Older files keep the key in the deprecated top-level field
   if (presentation.musicKey) {
     result.current = result.current || presentation.musicKey;
   }
@@ -626,4 +844,286 @@ export function generateUuid(): { string: string } {
 // Create Presentations
 // ============================================================================
 
-export { createPresentation, type CreatePresentationOptions, type SectionInput } from './create.js';
+export {
+  createPresentation,
+  createCue,
+  createSlide,
+  createTextElement,
+  splitSlides,
+  DEFAULT_GROUP_COLORS,
+  MusicKey,
+  MusicScale,
+  type CreatePresentationOptions,
+  type SlideStyle,
+  type SectionInput,
+  type SlideInput,
+  type SlideLine,
+  type SlideSplitOptions,
+  type ChordPosition,
+  type MusicKeyConfig,
+} from './create.js';
+export { PresentationBuilder, type GroupOptions } from './builder.js';
+
+// ============================================================================
+// Structural Checks
+// ============================================================================
+
+export {
+  lintPresentation,
+  type LintIssue,
+  type LintReport,
+  type LintOptions,
+  type LintSeverity,
+  type LintCode,
+} from './lint.js';
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+export {
+  diffPresentations,
+  diffWords,
+  formatPresentationDiff,
+  formatWordDiff,
+  type PresentationDiff,
+  type PresentationChange,
+  type ChangeType,
+  type WordChange,
+} from './diff.js';
+
+// ============================================================================
+// Transposition
+// ============================================================================
+
+export {
+  transposePresentation,
+  transposeChord,
+  getPresentationKey,
+  parseMusicKey,
+  parseKey,
+  notePitch,
+  spellNote,
+  type TransposeOptions,
+  type TransposeResult,
+} from './transpose.js';
+
+// ============================================================================
+// Chord Parsing
+// ============================================================================
+
+export {
+  parseChord,
+  formatChord,
+  isNoChord,
+  renderChordsOverLyrics,
+  CHORD_NOTATIONS,
+  type ParsedChord,
+  type ChordQuality,
+  type ChordNotation,
+} from './chord.js';
+
+// ============================================================================
+// Import and Export
+// ============================================================================
+
+export { parseChordPro, type ChordProImportOptions } from './chordpro.js';
+export {
+  parseLyrics,
+  parseSectionHeading,
+  getSectionType,
+  getSectionColor,
+  SECTION_WORDS,
+  type LyricsImportOptions,
+  type SectionHeading,
+  type SectionType,
+} from './lyrics.js';
+export {
+  parseOpenLyrics,
+  toOpenLyrics,
+  OPENLYRICS_NAMESPACE,
+  type OpenLyricsImportOptions,
+  type OpenLyricsExportOptions,
+} from './openlyrics.js';
+export {
+  convertPro6,
+  readPro6,
+  type Pro6ConvertOptions,
+  type Pro6Conversion,
+} from './pro6.js';
+export {
+  parseSongSelect,
+  isSongSelect,
+  type SongSelectImportOptions,
+} from './songselect.js';
+export {
+  parseXml,
+  escapeXml,
+  getXmlChild,
+  getXmlChildren,
+  getXmlText,
+  type XmlElement,
+  type XmlNode,
+} from './xml.js';
+
+// ============================================================================
+// RTF Document Model
+// ============================================================================
+
+export {
+  parseRtf,
+  serializeRtf,
+  getRtfText,
+  getRunFont,
+  getRunFontSize,
+  getRunColor,
+  createRtfDocument,
+  setRtfText,
+  computeTextEdit,
+  mapTextOffset,
+  type TextEdit,
+  type RtfDocument,
+  type RtfParagraph,
+  type RtfRun,
+  type RtfFont,
+  type RtfColor,
+  type RtfControl,
+  type RtfBreak,
+  type CreateRtfOptions,
+} from './rtf.js';
+
+// ============================================================================
+// Arrangements
+// ============================================================================
+
+export {
+  abbreviateGroupName,
+  findCueGroup,
+  renameCueGroup,
+  deleteCueGroup,
+  getArrangements,
+  findArrangement,
+  getSelectedArrangement,
+  expandArrangement,
+  getArrangementCues,
+  getSongSections,
+  formatSectionName,
+  createArrangement,
+  setArrangementGroups,
+  renameArrangement,
+  deleteArrangement,
+  selectArrangement,
+  type Arrangement,
+  type ArrangementSection,
+  type SongSection,
+  type SongOrderOptions,
+} from './arrangement.js';
+
+// ============================================================================
+// Playlists
+// ============================================================================
+
+export {
+  readPlaylist,
+  writePlaylist,
+  readPlaylistBundle,
+  getBundledFiles,
+  getPlaylists,
+  getPlaylist,
+  getPlaylistItems,
+  getPlaylistItemType,
+  getPlaylistItemPath,
+  listPlaylistItems,
+  findPlaylistItem,
+  resolvePlaylistItemPath,
+  readPlaylistItemPresentation,
+  createPlaylistItem,
+  insertPlaylistItem,
+  removePlaylistItem,
+  movePlaylistItem,
+  createPlaylist,
+  buildPlaylist,
+  type PlaylistDocument,
+  type Playlist,
+  type PlaylistItem,
+  type PlaylistItemType,
+  type PlaylistItemRef,
+  type PlaylistItemSummary,
+  type PlaylistItemInput,
+  type PlaylistWriteOptions,
+  type ResolveItemOptions,
+  type ServiceOrder,
+  type ServiceOrderItem,
+} from './playlist.js';
+
+export { isZip, readZip, writeZip, type ZipEntry } from './zip.js';
+
+// ============================================================================
+// Workspaces
+// ============================================================================
+
+export {
+  readWorkspace,
+  writeWorkspace,
+  getWorkspaceScreens,
+  findWorkspaceScreen,
+  getWorkspaceLooks,
+  getLiveLook,
+  getWorkspaceProps,
+  getWorkspaceMessages,
+  getWorkspaceStageLayouts,
+  summarizeWorkspace,
+  WORKSPACE_MESSAGE_TYPE,
+  type Workspace,
+  type WorkspaceScreen,
+  type AudienceLook,
+  type WorkspaceProp,
+  type WorkspaceMessage,
+  type StageLayout,
+  type WorkspaceEntry,
+  type WorkspaceSection,
+} from './workspace.js';
+
+// ============================================================================
+// Round-Trip Validation
+// ============================================================================
+
+export {
+  checkRoundTrip,
+  validateFile,
+  messageTypeForFile,
+  type RoundTripReport,
+  type FieldDifference,
+} from './validate.js';
+
+export {
+  findUnknownFields,
+  readWireFields,
+  attachUnknownFields,
+  injectUnknownFields,
+  hasUnknownFields,
+  UNKNOWN_FIELDS_KEY,
+  type UnknownField,
+  type WireField,
+} from './wire.js';
+
+// ============================================================================
+// Version Detection
+// ============================================================================
+
+export {
+  detectFileVersion,
+  readFileVersion,
+  formatFileVersion,
+  formatAppVersion,
+  protoVersionFor,
+  LATEST_PROTO_VERSION,
+  type FileVersionInfo,
+  type AppVersion,
+} from './version.js';
+
+// ============================================================================
+// Generated Message Types
+// ============================================================================
+
+export type { rv } from '../generated/types.js';
@@ -0,0 +1,205 @@
+/**
+ * Structural checks
+ *
+ * Finds references that don't resolve and other damage that ProPresenter
+ * won't report itself: group entries pointing at missing cues, arrangements
+ * naming missing groups, repeated or malformed UUIDs, and text attribute
+ * ranges that run past the text. Many of these can be repaired in place.
+ */
+
+import { generateUuid, rtfToText, type Cue, type Presentation } from './index.js';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintCode =
+  | 'invalid-uuid'
+  | 'duplicate-uuid'
+  | 'missing-cue'
+  | 'orphan-cue'
+  | 'missing-group'
+  | 'missing-arrangement'
+  | 'attribute-range';
+
+export interface LintIssue {
+  severity: LintSeverity;
+  code: LintCode;
+  /** Path of the field, e.g. `cueGroups[1].cueIdentifiers[2]` */
+  path: string;
+  message: string;
+  /** Whether `fix` can repair it */
+  fixable: boolean;
+  /** Whether it was repaired */
+  fixed: boolean;
+}
+
+export interface LintOptions {
+  /** Repair what can safely be repaired, in place (default: false) */
+  fix?: boolean;
+}
+
+export interface LintReport {
+  issues: LintIssue[];
+  errors: number;
+  warnings: number;
+  fixed: number;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type UuidHolder = { uuid?: { string?: string | null } | null } | null | undefined;
+
+/**
+ * Point every UUID reference inside a cue at a replaced UUID
+ */
+function remapUuid(cue: Cue, from: string, to: string): void {
+  const visit = (value: unknown) => {
+    if (typeof value !== 'object' || value === null || ArrayBuffer.isView(value)) return;
+    const node = value as Record<string, unknown>;
+    if (node.string === from) node.string = to;
+    for (const child of Object.values(node)) visit(child);
+  };
+  visit(cue);
+}
+
+/**
+ * Check a presentation's structure, optionally repairing it
+ *
+ * Dangling group entries, arrangement entries and selected arrangements are
+ * removed or reselected, and attribute ranges are clamped to the text. Bad
+ * action, slide and element UUIDs are replaced, along with the references to
+ * them inside their cue (e.g. a slide's element build order). Cues outside
+ * every group, bad presentation, cue, group or arrangement UUIDs, which other
+ * files and cues refer to, and UUIDs repeated within one cue are only
+ * reported.
+ *
+ * @example
+ * ```typescript
+ * const report = lintPresentation(presentation, { fix: true });
+ * for (const issue of report.issues) console.log(issue.severity, issue.path, issue.message);
+ * if (report.fixed > 0) await writePresentation(file, presentation);
+ * ```
+ */
+export function lintPresentation(presentation: Presentation, options: LintOptions = {}): LintReport {
+  const issues: LintIssue[] = [];
+
+  /** Record an issue and say whether to repair it */
+  const report = (severity: LintSeverity, code: LintCode, path: string, message: string, fixable: boolean): boolean => {
+    const fixed = fixable && options.fix === true;
+    issues.push({ severity, code, path, message, fixable, fixed });
+    return fixed;
+  };
+
+  // UUIDs: well-formed and unique. The presentation, cues, groups and
+  // arrangements are referred to from other cues and files, so replacing
+  // theirs would only break something else; a UUID inside a cue is replaced
+  // together with the cue's references to it.
+  const seen = new Map<string, { path: string; cue: Cue | null }>();
+  const checkUuid = (holder: UuidHolder, path: string, cue: Cue | null) => {
+    if (!holder) return;
+    const value = holder.uuid?.string || '';
+    const replace = () => {
+      holder.uuid = generateUuid();
+      if (value && cue) remapUuid(cue, value, holder.uuid.string!);
+    };
+    const first = seen.get(value.toUpperCase());
+    if (!UUID_PATTERN.test(value)) {
+      const message = value ? `Malformed UUID "${value}"` : 'Missing UUID';
+      if (report('error', 'invalid-uuid', `${path}.uuid`, message, cue !== null)) replace();
+    } else if (first) {
+      // Within one cue, there's no telling which of the two its references mean
+      const message = `UUID ${value} is also used by ${first.path}`;
+      if (report('error', 'duplicate-uuid', `${path}.uuid`, message, cue !== null && first.cue !== cue)) replace();
+    }
+    if (holder.uuid?.string) seen.set(holder.uuid.string.toUpperCase(), { path: path || 'the presentation', cue });
+  };
+
+  checkUuid(presentation, '', null);
+  (presentation.cueGroups || []).forEach((group, i) => checkUuid(group.group, `cueGroups[${i}].group`, null));
+  (presentation.arrangements || []).forEach((arrangement, i) => checkUuid(arrangement, `arrangements[${i}]`, null));
+  (presentation.cues || []).forEach((cue, i) => {
+    checkUuid(cue, `cues[${i}]`, null);
+    (cue.actions || []).forEach((action, j) => {
+      const path = `cues[${i}].actions[${j}]`;
+      checkUuid(action, path, cue);
+      const slide = action.slide?.presentation?.baseSlide;
+      if (!slide) return;
+      checkUuid(slide, `${path}.slide.presentation.baseSlide`, cue);
+      (slide.elements || []).forEach((element, k) => {
+        checkUuid(element.element, `${path}.slide.presentation.baseSlide.elements[${k}].element`, cue);
+      });
+    });
+  });
+
+  // Group entries must name a cue; every cue should be in a group
+  const cues = new Map<string, Cue>();
+  for (const cue of presentation.cues || []) {
+    if (cue.uuid?.string) cues.set(cue.uuid.string, cue);
+  }
+  const grouped = new Set<string>();
+  (presentation.cueGroups || []).forEach((group, i) => {
+    const name = group.group?.name || 'Unnamed';
+    group.cueIdentifiers = (group.cueIdentifiers || []).filter((id, j) => {
+      if (id.string && cues.has(id.string)) {
+        grouped.add(id.string);
+        return true;
+      }
+      const message = `Group "${name}" refers to missing cue ${id.string || '(empty)'}`;
+      return !report('error', 'missing-cue', `cueGroups[${i}].cueIdentifiers[${j}]`, message, true);
+    });
+  });
+  (presentation.cues || []).forEach((cue, i) => {
+    if (!grouped.has(cue.uuid?.string || '')) {
+      report('warning', 'orphan-cue', `cues[${i}]`, `Cue "${cue.name || cue.uuid?.string || i}" is in no group`, false);
+    }
+  });
+
+  // Arrangements must name groups; the selected one must exist
+  const groupIds = new Set((presentation.cueGroups || []).map(group => group.group?.uuid?.string).filter(Boolean));
+  (presentation.arrangements || []).forEach((arrangement, i) => {
+    arrangement.groupIdentifiers = (arrangement.groupIdentifiers || []).filter((id, j) => {
+      if (id.string && groupIds.has(id.string)) return true;
+      const message = `Arrangement "${arrangement.name}" refers to missing group ${id.string || '(empty)'}`;
+      return !report('error', 'missing-group', `arrangements[${i}].groupIdentifiers[${j}]`, message, true);
+    });
+  });
+
+  const selected = presentation.selectedArrangement?.string;
+  if (selected && !(presentation.arrangements || []).some(arrangement => arrangement.uuid?.string === selected)) {
+    if (report('error', 'missing-arrangement', 'selectedArrangement', `Selected arrangement ${selected} doesn't exist`, true)) {
+      presentation.selectedArrangement = presentation.arrangements?.[0]?.uuid;
+    }
+  }
+
+  // Text attribute ranges must fall within the text
+  (presentation.cues || []).forEach((cue, i) => {
+    (cue.actions || []).forEach((action, j) => {
+      const elements = action.slide?.presentation?.baseSlide?.elements || [];
+      elements.forEach((element, k) => {
+        const text = element.element?.text;
+        if (!text?.rtfData) return;
+        const length = rtfToText(text.rtfData).length;
+        (text.attributes?.customAttributes || []).forEach((attribute, m) => {
+          const range = attribute.range;
+          if (!range) return;
+          const start = Number(range.start || 0);
+          const end = Number(range.end || 0);
+          if (start >= 0 && end <= length && start <= end) return;
+
+          const path = `cues[${i}].actions[${j}].slide.presentation.baseSlide.elements[${k}].element.text.attributes.customAttributes[${m}].range`;
+          const message = `Range ${start}-${end} of "${cue.name}" is outside its text (${length} characters)`;
+          if (report('error', 'attribute-range', path, message, true)) {
+            range.start = Math.min(Math.max(start, 0), length);
+            range.end = Math.min(Math.max(end, range.start), length);
+          }
+        });
+      });
+    });
+  });
+
+  return {
+    issues,
+    errors: issues.filter(issue => issue.severity === 'error').length,
+    warnings: issues.filter(issue => issue.severity === 'warning').length,
+    fixed: issues.filter(issue => issue.fixed).length,
+  };
+}
@@ -0,0 +1,184 @@
+/**
+ * Plain-text lyrics import
+ *
+ * Reads lyric sheets with section headings (`[Verse 1]`, `Chorus:`,
+ * `REFRAIN`) and blank lines between slides, including the output of the
+ * `text` command and the `lyrics-txt` export.
+ */
+
+import {
+  splitSlides,
+  DEFAULT_GROUP_COLORS,
+  type CreatePresentationOptions,
+  type SectionInput,
+  type SlideLine,
+  type SlideSplitOptions,
+} from './create.js';
+import type { Color } from './index.js';
+
+export type SectionType = 'verse' | 'pre-chorus' | 'chorus' | 'bridge' | 'intro' | 'interlude' | 'tag' | 'ending';
+
+/**
+ * Words that name each type of section, in English, German, French, Spanish,
+ * Portuguese, Italian, Dutch and Scandinavian languages
+ */
+export const SECTION_WORDS: Record<SectionType, string[]> = {
+  verse: ['verse', 'strophe', 'couplet', 'verso', 'estrofa', 'strofa', 'vers'],
+  'pre-chorus': ['pre-chorus', 'pre chorus', 'prechorus', 'pre-refrain', 'pré-refrain', 'vorrefrain', 'pre-coro', 'pré-refrão', 'pre-estribillo'],
+  chorus: ['chorus', 'refrain', 'refrein', 'coro', 'estribillo', 'refrão', 'ritornello', 'omkväde', 'kor', 'omkvæd'],
+  bridge: ['bridge', 'brücke', 'pont', 'puente', 'ponte', 'brug'],
+  intro: ['intro', 'introduction', 'einleitung', 'introducción', 'introdução', 'inleiding'],
+  interlude: ['interlude', 'instrumental', 'zwischenspiel', 'interludio', 'interlúdio', 'tussenspel', 'turnaround'],
+  tag: ['tag', 'vamp'],
+  ending: ['ending', 'outro', 'coda', 'schluss', 'final'],
+};
+
+/** Group color of each section type, from `DEFAULT_GROUP_COLORS` */
+const SECTION_COLORS: Record<SectionType, Color> = {
+  verse: DEFAULT_GROUP_COLORS[0],        // Blue
+  'pre-chorus': DEFAULT_GROUP_COLORS[2], // Orange
+  chorus: DEFAULT_GROUP_COLORS[4],       // Red
+  bridge: DEFAULT_GROUP_COLORS[5],       // Purple
+  intro: DEFAULT_GROUP_COLORS[1],        // Green
+  interlude: DEFAULT_GROUP_COLORS[1],    // Green
+  tag: DEFAULT_GROUP_COLORS[3],          // Yellow
+  ending: DEFAULT_GROUP_COLORS[3],       // Yellow
+};
+
+export interface LyricsImportOptions extends SlideSplitOptions {
+  /** Song title (lyric sheets don't carry one) */
+  title?: string;
+  /**
+   * Extra patterns for heading lines, tried before the built-in ones. The
+   * first capture group, if any, is the section name.
+   */
+  headingPatterns?: RegExp[];
+}
+
+/** A section heading, e.g. "Chorus x2" → { name: 'Chorus', repeat: 2 } */
+export interface SectionHeading {
+  name: string;
+  repeat: number;
+}
+
+/** "x2", "(2x)" or "(x2)" after a heading */
+const REPEAT_PATTERN = /\s+(?:[x×]\s*(\d+)|\(\s*(?:[x×]\s*(\d+)|(\d+)\s*[x×])\s*\))$/i;
+
+/**
+ * Get the type of a section from its name, e.g. "Refrain 2" → 'chorus'
+ */
+export function getSectionType(name: string): SectionType | null {
+  const word = name.toLowerCase().replace(/\s*\d+[a-z]?$/, '').trim();
+  for (const [type, words] of Object.entries(SECTION_WORDS)) {
+    if (words.includes(word)) return type as SectionType;
+  }
+  return null;
+}
+
+/**
+ * Group color for a section, the same for every section of a type
+ */
+export function getSectionColor(name: string): Color | undefined {
+  const type = getSectionType(name);
+  return type ? SECTION_COLORS[type] : undefined;
+}
+
+/**
+ * Recognise a section heading line. Anything in square brackets is a
+ * heading; otherwise the line must name a known section type. A bare word
+ * such as "Final" or "Coro" may as well be a lyric, so it's only a heading
+ * with a colon, a number, a repeat count, or in capitals.
+ */
+export function parseSectionHeading(line: string, patterns: RegExp[] = []): SectionHeading | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+
+  for (const pattern of patterns) {
+    const match = pattern.exec(trimmed);
+    if (match) return withRepeat((match[1] ?? trimmed).replace(/^\[|\]$|:$/g, '').trim());
+  }
+
+  const bracketed = /^\[(.+)\]$/.exec(trimmed);
+  if (bracketed) return withRepeat(bracketed[1].trim());
+
+  const text = trimmed.replace(/:$/, '').trim();
+  const heading = withRepeat(text);
+  if (!getSectionType(heading.name)) return null;
+
+  const marked = trimmed.endsWith(':') || /\d/.test(text) || heading.name === heading.name.toUpperCase();
+  if (!marked) return null;
+
+  // CHORUS → Chorus
+  if (heading.name === heading.name.toUpperCase()) {
+    heading.name = heading.name.charAt(0) + heading.name.slice(1).toLowerCase();
+  }
+  return heading;
+}
+
+function withRepeat(text: string): SectionHeading {
+  const repeat = REPEAT_PATTERN.exec(text);
+  if (!repeat) return { name: text, repeat: 1 };
+  return { name: text.slice(0, repeat.index).trim(), repeat: parseInt(repeat[1] || repeat[2] || repeat[3], 10) };
+}
+
+/**
+ * Parse a plain-text lyric sheet into options for `createPresentation`
+ *
+ * A section that repeats one seen before (same name and lyrics, or a bare
+ * heading such as "Chorus" with no lyrics) is played again in the
+ * arrangement rather than duplicated, so the output of the `text` command
+ * imports back to the same groups and order.
+ *
+ * @example
+ * ```typescript
+ * const source = await fs.readFile('Amazing Grace.txt', 'utf8');
+ * const presentation = createPresentation(parseLyrics(source, { title: 'Amazing Grace' }));
+ * ```
+ */
+export function parseLyrics(source: string, options: LyricsImportOptions = {}): CreatePresentationOptions {
+  const parsed: { heading: SectionHeading; lines: SlideLine[] }[] = [];
+  let verses = 0;
+
+  for (const rawLine of source.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trimEnd();
+    const heading = parseSectionHeading(line, options.headingPatterns);
+
+    if (heading) {
+      const number = /^verse\s+(\d+)$/i.exec(heading.name);
+      if (number) verses = Math.max(verses, parseInt(number[1], 10));
+      parsed.push({ heading, lines: [] });
+    } else if (parsed.length > 0) {
+      parsed[parsed.length - 1].lines.push({ text: line });
+    } else if (line.trim()) {
+      // Lyrics before the first heading
+      parsed.push({ heading: { name: `Verse ${++verses}`, repeat: 1 }, lines: [{ text: line }] });
+    }
+  }
+
+  const sections: SectionInput[] = [];
+  const sectionLyrics: string[] = [];
+  const arrangement: number[] = [];
+
+  for (const { heading, lines } of parsed) {
+    const slides = splitSlides(lines, options);
+    const lyrics = slides.map(slide => slide.text).join('\n\n');
+
+    let index = sections.findIndex((section, i) =>
+      section.name === heading.name && (slides.length === 0 || sectionLyrics[i] === lyrics)
+    );
+    if (index < 0) {
+      if (slides.length === 0) continue;
+      index = sections.push({ name: heading.name, slides, color: getSectionColor(heading.name) }) - 1;
+      sectionLyrics.push(lyrics);
+    }
+
+    for (let i = 0; i < heading.repeat; i++) arrangement.push(index);
+  }
+
+  const inOrder = arrangement.length === sections.length && arrangement.every((index, i) => index === i);
+  return {
+    title: options.title || 'Untitled',
+    sections,
+    arrangement: inOrder ? undefined : arrangement,
+  };
+}
@@ -0,0 +1,333 @@
+/**
+ * OpenLyrics import and export
+ *
+ * OpenLyrics (https://openlyrics.org) is the XML song format of OpenLP,
+ * Quelea and many song databases. Each `<verse>` becomes a group, each
+ * `<lines>` block within it a slide, and `<chord>` elements become chords.
+ */
+
+import {
+  getCueText,
+  getCueChords,
+  type Cue,
+  type Presentation,
+} from './index.js';
+import {
+  splitSlides,
+  type CreatePresentationOptions,
+  type SectionInput,
+  type SlideLine,
+  type SlideSplitOptions,
+  type ChordPosition,
+} from './create.js';
+import { expandArrangement, findArrangement, getSelectedArrangement, type SongOrderOptions } from './arrangement.js';
+import { parseCopyright } from './chordpro.js';
+import { getSectionColor, getSectionType, type SectionType } from './lyrics.js';
+import { getPresentationKey, parseMusicKey } from './transpose.js';
+import {
+  parseXml,
+  escapeXml,
+  getXmlChild,
+  getXmlChildren,
+  getXmlText,
+  type XmlElement,
+} from './xml.js';
+
+export const OPENLYRICS_NAMESPACE = 'http://openlyrics.info/namespace/2009/song';
+
+export interface OpenLyricsImportOptions extends SlideSplitOptions {
+  /** Title to use when the song has none */
+  title?: string;
+  /** Language of the verses to import, for songs with translations (default: the first) */
+  language?: string;
+}
+
+export interface OpenLyricsExportOptions extends SongOrderOptions {
+  /** Name of the program recorded in `createdIn` */
+  createdIn?: string;
+}
+
+/** Verse name prefixes and the sections they stand for */
+const VERSE_TYPES: Record<string, string> = {
+  v: 'Verse',
+  c: 'Chorus',
+  p: 'Pre-Chorus',
+  b: 'Bridge',
+  i: 'Intro',
+  e: 'Ending',
+  o: 'Other',
+};
+
+/** Verse name prefix for each section type */
+const VERSE_PREFIXES: Record<SectionType, string> = {
+  verse: 'v',
+  chorus: 'c',
+  'pre-chorus': 'p',
+  bridge: 'b',
+  intro: 'i',
+  ending: 'e',
+  interlude: 'o',
+  tag: 'o',
+};
+
+/** OpenLyrics 0.9 chord structures and how they're usually written */
+const CHORD_STRUCTURES: Record<string, string> = {
+  maj: '',
+  major: '',
+  min: 'm',
+  minor: 'm',
+  dom7: '7',
+  min7: 'm7',
+  maj7: 'maj7',
+  'half-dim7': 'm7b5',
+};
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Readable name for a verse name like 'v1' or 'c', e.g. 'Verse 1' or 'Chorus'
+ */
+function sectionName(verseName: string, single: boolean): string {
+  const match = /^([a-z])(\d*)([a-z]?)$/i.exec(verseName);
+  const type = match && VERSE_TYPES[match[1].toLowerCase()];
+  if (!match || !type) return verseName;
+  // A lone 'c1' is just the chorus
+  const number = match[2] && !(single && match[2] === '1' && type !== 'Verse') ? ` ${match[2]}` : '';
+  return `${type}${number}${match[3]}`;
+}
+
+/**
+ * Name of a `<chord>` element: `name` (0.8) or `root`, `structure` and
+ * `bass` (0.9)
+ */
+function chordName(chord: XmlElement): string {
+  const { name, root, structure, bass } = chord.attributes;
+  if (name) return name;
+  if (!root) return '';
+  const suffix = structure ? CHORD_STRUCTURES[structure] ?? structure : '';
+  return `${root}${suffix}${bass ? `/${bass}` : ''}`;
+}
+
+/**
+ * Read a `<lines>` block into lines of text with chords
+ */
+function readLines(block: XmlElement): SlideLine[] {
+  const lines: { text: string; chords: ChordPosition[] }[] = [{ text: '', chords: [] }];
+
+  const visit = (element: XmlElement) => {
+    for (const child of element.children) {
+      const line = lines[lines.length - 1];
+      if (typeof child === 'string') {
+        // Line breaks in the XML are formatting; <br/> breaks lines
+        line.text += child.replace(/\s*\n\s*/g, ' ');
+      } else if (child.name === 'br') {
+        lines.push({ text: '', chords: [] });
+      } else if (child.name === 'chord') {
+        const chord = chordName(child);
+        if (chord) line.chords.push({ position: line.text.length, chord });
+        visit(child);
+      } else if (child.name !== 'comment') {
+        visit(child);
+      }
+    }
+  };
+  visit(block);
+
+  return lines.map(line => {
+    const lead = line.text.length - line.text.trimStart().length;
+    const text = line.text.trim();
+    return {
+      text,
+      chords: line.chords.map(chord => ({ ...chord, position: Math.min(Math.max(0, chord.position - lead), text.length) })),
+    };
+  });
+}
+
+/**
+ * Parse an OpenLyrics song into options for `createPresentation`
+ *
+ * @example
+ * ```typescript
+ * const source = await fs.readFile('Amazing Grace.xml', 'utf8');
+ * const presentation = createPresentation(parseOpenLyrics(source));
+ * ```
+ */
+export function parseOpenLyrics(source: string, options: OpenLyricsImportOptions = {}): CreatePresentationOptions {
+  const song = parseXml(source);
+  if (song.name !== 'song') throw new Error(`Not an OpenLyrics song: root element is <${song.name}>`);
+
+  const properties = getXmlChild(song, 'properties');
+  const property = (name: string) => (properties ? getXmlChild(properties, name) : null);
+
+  const titles = getXmlChildren(property('titles') || song, 'title');
+  const title = titles.find(t => !t.attributes.lang || t.attributes.lang === options.language) || titles[0];
+  const authors = getXmlChildren(property('authors') || song, 'author').map(getXmlText).filter(Boolean);
+
+  const verses = getXmlChildren(getXmlChild(song, 'lyrics') || song, 'verse');
+  const language = options.language || verses.find(v => v.attributes.lang)?.attributes.lang;
+  const selected = verses.filter(v => !v.attributes.lang || !language || v.attributes.lang === language);
+
+  const counts = new Map<string, number>();
+  for (const verse of selected) {
+    const prefix = (verse.attributes.name || '').charAt(0).toLowerCase();
+    counts.set(prefix, (counts.get(prefix) || 0) + 1);
+  }
+
+  const sections: SectionInput[] = [];
+  const verseIndexes = new Map<string, number>();
+  for (const verse of selected) {
+    const verseName = verse.attributes.name || `v${sections.length + 1}`;
+    const name = sectionName(verseName, counts.get(verseName.charAt(0).toLowerCase()) === 1);
+
+    // Each <lines> block is a slide; a blank line keeps them apart
+    const lines = getXmlChildren(verse, 'lines').flatMap(block => [...readLines(block), { text: '' }]);
+    const slides = splitSlides(lines, options);
+    if (slides.length === 0) continue;
+
+    verseIndexes.set(verseName.toLowerCase(), sections.length);
+    sections.push({ name, slides, color: getSectionColor(name) });
+  }
+
+  const verseOrder = getXmlText(property('verseOrder')).split(/\s+/).filter(Boolean);
+  const arrangement = verseOrder
+    .map(verseName => verseIndexes.get(verseName.toLowerCase()))
+    .filter((index): index is number => index !== undefined);
+
+  const copyright = parseCopyright(getXmlText(property('copyright')));
+  const ccliNumber = parseInt(getXmlText(property('ccliNo')), 10);
+
+  return {
+    title: getXmlText(title || null) || options.title || 'Untitled',
+    ccliNumber: Number.isNaN(ccliNumber) ? undefined : ccliNumber,
+    ccliAuthor: authors.length > 0 ? authors.join(', ') : undefined,
+    copyrightYear: copyright.year,
+    publisher: copyright.publisher,
+    musicKey: parseMusicKey(getXmlText(property('key'))) || undefined,
+    sections,
+    arrangement: arrangement.length > 0 ? arrangement : undefined,
+  };
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Write a slide's text as the content of a `<lines>` element
+ */
+function writeLines(text: string, chords: { chord: string; position: { start: number } }[]): string {
+  const sorted = [...chords].sort((a, b) => a.position.start - b.position.start);
+  let output = '';
+  let last = 0;
+  for (const chord of sorted) {
+    const position = Math.min(Math.max(chord.position.start, last), text.length);
+    output += escapeXml(text.slice(last, position)) + `<chord name="${escapeXml(chord.chord)}"/>`;
+    last = position;
+  }
+  output += escapeXml(text.slice(last));
+  return output.replace(/\n/g, '<br/>');
+}
+
+/**
+ * Give each group an OpenLyrics verse name (v1, c1, b1, ...), numbered from
+ * the group name where it has a number
+ */
+function verseNames(groups: string[]): string[] {
+  const used = new Set<string>();
+  const names = groups.map(group => {
+    const prefix = VERSE_PREFIXES[getSectionType(group) as SectionType] || 'o';
+    const number = /(\d+)[a-z]?$/i.exec(group)?.[1];
+    const name = number && !used.has(`${prefix}${number}`) ? `${prefix}${number}` : null;
+    if (name) used.add(name);
+    return { prefix, name };
+  });
+
+  return names.map(({ prefix, name }) => {
+    if (name) return name;
+    let number = 1;
+    while (used.has(`${prefix}${number}`)) number++;
+    used.add(`${prefix}${number}`);
+    return `${prefix}${number}`;
+  });
+}
+
+/**
+ * Each group's UUID, name and cues, in group order. Unlike `getCuesByGroup`,
+ * groups that share a name stay apart.
+ */
+function groupCues(presentation: Presentation): { uuid: string; name: string; cues: Cue[] }[] {
+  const cues = new Map<string, Cue>();
+  for (const cue of presentation.cues || []) {
+    if (cue.uuid?.string) cues.set(cue.uuid.string, cue);
+  }
+  return (presentation.cueGroups || []).map(group => ({
+    uuid: group.group?.uuid?.string || '',
+    name: group.group?.name || 'Unnamed',
+    cues: (group.cueIdentifiers || [])
+      .map(id => id.string && cues.get(id.string))
+      .filter((cue): cue is Cue => !!cue),
+  }));
+}
+
+/**
+ * Write a presentation as an OpenLyrics song
+ *
+ * Each group becomes a verse and each slide a `<lines>` block; groups that
+ * share a name get verse names of their own. The verse order follows the
+ * selected arrangement, or the one named in the options.
+ */
+export function toOpenLyrics(presentation: Presentation, options: OpenLyricsExportOptions = {}): string {
+  const ccli = presentation.ccli;
+  const groups = groupCues(presentation);
+  const names = verseNames(groups.map(group => group.name));
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<song xmlns="${OPENLYRICS_NAMESPACE}" version="0.8" createdIn="${escapeXml(options.createdIn || 'propresenter-protobuf')}" modifiedDate="${new Date().toISOString().replace(/\.\d+Z$/, '')}">`,
+    '  <properties>',
+    '    <titles>',
+    `      <title>${escapeXml(ccli?.songTitle || presentation.name || 'Untitled')}</title>`,
+    '    </titles>',
+  ];
+
+  const authors = (ccli?.author || '').split(/\s*(?:,|;|&|\band\b)\s*/).filter(Boolean);
+  if (authors.length > 0) {
+    lines.push('    <authors>');
+    for (const author of authors) lines.push(`      <author>${escapeXml(author)}</author>`);
+    lines.push('    </authors>');
+  }
+
+  const copyright = [ccli?.copyrightYear || '', ccli?.publisher || ''].filter(Boolean).join(' ');
+  if (copyright) lines.push(`    <copyright>${escapeXml(copyright)}</copyright>`);
+  if (ccli?.songNumber) lines.push(`    <ccliNo>${ccli.songNumber}</ccliNo>`);
+
+  const key = getPresentationKey(presentation);
+  if (key) lines.push(`    <key>${escapeXml(key)}</key>`);
+
+  if (options.arrangement !== false) {
+    const arrangement = options.arrangement
+      ? findArrangement(presentation, options.arrangement)
+      : getSelectedArrangement(presentation);
+    if (options.arrangement && !arrangement) throw new Error(`Arrangement not found: ${options.arrangement}`);
+
+    const verseByGroup = new Map(groups.map((group, index) => [group.uuid, names[index]]));
+    const order = arrangement
+      ? expandArrangement(presentation, arrangement).map(section => verseByGroup.get(section.group.group?.uuid?.string || ''))
+      : [];
+    if (order.length > 0) lines.push(`    <verseOrder>${order.join(' ')}</verseOrder>`);
+  }
+
+  lines.push('  </properties>', '  <lyrics>');
+  groups.forEach((group, index) => {
+    lines.push(`    <verse name="${names[index]}">`);
+    for (const cue of group.cues) {
+      lines.push(`      <lines>${writeLines(getCueText(cue), getCueChords(cue))}</lines>`);
+    }
+    lines.push('    </verse>');
+  });
+  lines.push('  </lyrics>', '</song>', '');
+
+  return lines.join('\n');
+}
@@ -0,0 +1,449 @@
+/**
+ * Playlists (.proplaylist files)
+ *
+ * A playlist file holds an `rv.data.PlaylistDocument`. ProPresenter exports
+ * them as ZIP bundles with the document in a `data` entry next to copies of
+ * the presentations and media it references; plain documents are read too.
+ */
+
+import * as fs from 'fs/promises';
+import { existsSync } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { rv } from '../generated/types.js';
+import {
+  decodeMessage,
+  encodeMessage,
+  readPresentation,
+  generateUuid,
+  type CodecOptions,
+  type Presentation,
+  type Color,
+} from './index.js';
+import { isZip, readZip, writeZip, type ZipEntry } from './zip.js';
+import { findArrangement } from './arrangement.js';
+
+export type PlaylistDocument = rv.data.PlaylistDocument;
+export type Playlist = rv.data.Playlist;
+export type PlaylistItem = rv.data.PlaylistItem;
+
+export type PlaylistItemType = 'presentation' | 'header' | 'cue' | 'placeholder' | 'planningCenter' | 'unknown';
+
+/**
+ * An item in a playlist, addressed by index, UUID or name
+ */
+export type PlaylistItemRef = string | number;
+
+export interface PlaylistItemSummary {
+  index: number;
+  uuid?: string;
+  type: PlaylistItemType;
+  name: string;
+  /** Presentation file the item refers to, as recorded in the playlist */
+  documentPath?: string;
+  /** UUID of the arrangement chosen for a presentation item */
+  arrangement?: string;
+}
+
+/**
+ * Description of a playlist item to create: a presentation file path, or a
+ * header or placeholder by name
+ */
+export type PlaylistItemInput =
+  | string
+  | { path: string; name?: string; arrangement?: string }
+  | { header: string; color?: Color }
+  | { placeholder: string };
+
+export interface PlaylistWriteOptions extends CodecOptions {
+  /**
+   * Write a ZIP bundle as ProPresenter does (default: true, unless the
+   * document was read from a plain file)
+   */
+  bundle?: boolean;
+}
+
+export interface ResolveItemOptions {
+  /** Directory that relative document paths are resolved against */
+  baseDir?: string;
+  /** Directories to look for the file by name when its recorded path is missing */
+  searchPaths?: string[];
+}
+
+// rv.data.PlaylistDocument.Type
+const DOCUMENT_TYPE_PRESENTATION = 1;
+
+// rv.data.Playlist.Type
+const PLAYLIST_TYPE_PLAYLIST = 1;
+const PLAYLIST_TYPE_ROOT = 4;
+
+// rv.data.URL.Platform
+const URL_PLATFORM_MACOS = 1;
+const URL_PLATFORM_WIN32 = 2;
+
+/** Bundle entry holding the encoded document */
+const BUNDLE_DATA_ENTRY = 'data';
+
+// Other files of each bundle read (written back with the document), or null
+// for documents read from a plain file
+const bundledFiles = new WeakMap<object, ZipEntry[] | null>();
+
+// ============================================================================
+// Reading and Writing
+// ============================================================================
+
+/**
+ * Split a playlist file into its encoded document and bundled files
+ */
+export function readPlaylistBundle(buffer: Uint8Array): { data: Uint8Array; files: ZipEntry[] | null } {
+  if (!isZip(buffer)) return { data: buffer, files: null };
+
+  const entries = readZip(buffer);
+  const data = entries.find(e => e.name === BUNDLE_DATA_ENTRY);
+  if (!data) throw new Error(`Playlist bundle has no "${BUNDLE_DATA_ENTRY}" entry`);
+  return { data: data.data, files: entries.filter(e => e !== data) };
+}
+
+/**
+ * Read a ProPresenter playlist file
+ */
+export async function readPlaylist(filePath: string, options: CodecOptions = {}): Promise<PlaylistDocument> {
+  const { data, files } = readPlaylistBundle(await fs.readFile(filePath));
+  const document = await decodeMessage<PlaylistDocument>('rv.data.PlaylistDocument', data, options);
+  bundledFiles.set(document, files);
+  return document;
+}
+
+/**
+ * Write a ProPresenter playlist file
+ */
+export async function writePlaylist(filePath: string, document: PlaylistDocument, options: PlaylistWriteOptions = {}): Promise<void> {
+  const data = Buffer.from(await encodeMessage('rv.data.PlaylistDocument', document, options));
+  const files = bundledFiles.get(document);
+  const bundle = options.bundle ?? files !== null;
+
+  await fs.writeFile(filePath, bundle ? writeZip([{ name: BUNDLE_DATA_ENTRY, data }, ...(files || [])]) : data);
+}
+
+/**
+ * Get the files bundled with a playlist read from disk
+ */
+export function getBundledFiles(document: PlaylistDocument): ZipEntry[] {
+  return bundledFiles.get(document) || [];
+}
+
+// ============================================================================
+// Playlists and Items
+// ============================================================================
+
+/**
+ * Get every playlist in a document, including those inside folders
+ */
+export function getPlaylists(document: PlaylistDocument): Playlist[] {
+  const result: Playlist[] = [];
+  const visit = (playlist: Playlist) => {
+    if (playlist.items) result.push(playlist);
+    for (const child of playlist.playlists?.playlists || []) visit(child);
+  };
+  if (document.rootNode) visit(document.rootNode);
+  return result;
+}
+
+/**
+ * Find a playlist by name (case-insensitive), or the first one
+ */
+export function getPlaylist(document: PlaylistDocument, name?: string): Playlist | null {
+  const playlists = getPlaylists(document);
+  if (name === undefined) return playlists[0] || null;
+  return playlists.find(p => (p.name || '').toLowerCase() === name.toLowerCase()) || null;
+}
+
+/**
+ * Get the items of a playlist in order
+ */
+export function getPlaylistItems(playlist: Playlist): PlaylistItem[] {
+  return playlist.items?.items || [];
+}
+
+/**
+ * Tell what kind of item a playlist entry is
+ */
+export function getPlaylistItemType(item: PlaylistItem): PlaylistItemType {
+  if (item.presentation) return 'presentation';
+  if (item.header) return 'header';
+  if (item.cue) return 'cue';
+  if (item.placeholder) return 'placeholder';
+  if (item.planningCenter) return 'planningCenter';
+  return 'unknown';
+}
+
+/**
+ * Get the presentation file path recorded on an item, if it has one
+ */
+export function getPlaylistItemPath(item: PlaylistItem): string | null {
+  const url = item.presentation?.documentPath;
+  if (!url) return null;
+
+  if (url.absoluteString) {
+    if (!url.absoluteString.startsWith('file:')) return url.absoluteString;
+    try {
+      return fileURLToPath(url.absoluteString);
+    } catch {
+      // A path from another platform, e.g. a macOS path read on Windows
+      return decodeURIComponent(new URL(url.absoluteString).pathname);
+    }
+  }
+  return url.relativePath || url.local?.path || null;
+}
+
+/**
+ * List the items of a playlist with their types and referenced files
+ */
+export function listPlaylistItems(playlist: Playlist): PlaylistItemSummary[] {
+  return getPlaylistItems(playlist).map((item, index) => ({
+    index,
+    uuid: item.uuid?.string,
+    type: getPlaylistItemType(item),
+    name: item.name || '',
+    documentPath: getPlaylistItemPath(item) || undefined,
+    arrangement: item.presentation?.arrangement?.string || undefined,
+  }));
+}
+
+/**
+ * Find an item by index, UUID or name (case-insensitive)
+ */
+export function findPlaylistItem(playlist: Playlist, ref: PlaylistItemRef): PlaylistItem | null {
+  const items = getPlaylistItems(playlist);
+  if (typeof ref === 'number') return items[ref] || null;
+  const name = ref.toLowerCase();
+  return items.find(i => i.uuid?.string?.toLowerCase() === name)
+    || items.find(i => (i.name || '').toLowerCase() === name)
+    || null;
+}
+
+// ============================================================================
+// Resolving Presentations
+// ============================================================================
+
+/**
+ * Find the presentation file an item refers to on disk
+ */
+export function resolvePlaylistItemPath(item: PlaylistItem, options: ResolveItemOptions = {}): string | null {
+  const recorded = getPlaylistItemPath(item);
+  if (!recorded) return null;
+
+  const candidates = [path.resolve(options.baseDir || '.', recorded)];
+  // Recorded paths often come from another machine, so fall back to the name
+  const fileName = recorded.split(/[\\/]/).pop()!;
+  for (const dir of options.searchPaths || []) {
+    candidates.push(path.join(dir, fileName));
+  }
+
+  return candidates.find(candidate => existsSync(candidate)) || null;
+}
+
+/**
+ * Read the presentation an item refers to, from the playlist's bundle if it
+ * carries a copy, otherwise from disk
+ */
+export async function readPlaylistItemPresentation(
+  item: PlaylistItem,
+  options: ResolveItemOptions & CodecOptions & { document?: PlaylistDocument } = {}
+): Promise<Presentation> {
+  const recorded = getPlaylistItemPath(item);
+  if (!recorded) throw new Error(`Playlist item "${item.name || ''}" is not a presentation`);
+
+  const fileName = recorded.split(/[\\/]/).pop()!;
+  const bundled = options.document && getBundledFiles(options.document).find(f => f.name.split('/').pop() === fileName);
+  if (bundled) {
+    return decodeMessage<Presentation>('rv.data.Presentation', bundled.data, options);
+  }
+
+  const resolved = resolvePlaylistItemPath(item, options);
+  if (!resolved) throw new Error(`Presentation not found: ${recorded}`);
+  return readPresentation(resolved, options);
+}
+
+// ============================================================================
+// Editing
+// ============================================================================
+
+/**
+ * Create a playlist item
+ */
+export function createPlaylistItem(input: PlaylistItemInput): PlaylistItem {
+  if (typeof input === 'string') input = { path: input };
+
+  if ('header' in input) {
+    return {
+      uuid: generateUuid(),
+      name: input.header,
+      header: { color: input.color || { red: 0.5, green: 0.5, blue: 0.5, alpha: 1 } },
+    };
+  }
+
+  if ('placeholder' in input) {
+    return { uuid: generateUuid(), name: input.placeholder, placeholder: {} };
+  }
+
+  const filePath = path.resolve(input.path);
+  return {
+    uuid: generateUuid(),
+    name: input.name || path.basename(filePath, path.extname(filePath)),
+    presentation: {
+      documentPath: {
+        absoluteString: pathToFileURL(filePath).href,
+        platform: process.platform === 'win32' ? URL_PLATFORM_WIN32 : URL_PLATFORM_MACOS,
+      },
+      arrangement: input.arrangement ? { string: input.arrangement } : undefined,
+    },
+  };
+}
+
+/**
+ * Insert an item into a playlist (at the end by default)
+ */
+export function insertPlaylistItem(playlist: Playlist, item: PlaylistItem, index?: number): PlaylistItem {
+  if (!playlist.items) playlist.items = { items: [] };
+  if (!playlist.items.items) playlist.items.items = [];
+  const items = playlist.items.items;
+  items.splice(index === undefined ? items.length : Math.max(0, Math.min(index, items.length)), 0, item);
+  return item;
+}
+
+/**
+ * Remove an item from a playlist
+ *
+ * @returns The removed item, or null if it wasn't found
+ */
+export function removePlaylistItem(playlist: Playlist, ref: PlaylistItemRef): PlaylistItem | null {
+  const item = findPlaylistItem(playlist, ref);
+  if (!item) return null;
+  const items = getPlaylistItems(playlist);
+  items.splice(items.indexOf(item), 1);
+  return item;
+}
+
+/**
+ * Move an item to a new position in a playlist
+ */
+export function movePlaylistItem(playlist: Playlist, ref: PlaylistItemRef, index: number): boolean {
+  const item = removePlaylistItem(playlist, ref);
+  if (!item) return false;
+  insertPlaylistItem(playlist, item, index);
+  return true;
+}
+
+/**
+ * Create a playlist document holding a single playlist
+ *
+ * @example
+ * ```typescript
+ * const service = createPlaylist('Sunday Service', [
+ *   { header: 'Worship' },
+ *   'Libraries/Default/Build My Life.pro',
+ *   { path: 'Libraries/Default/All Is Well.pro', arrangement: arrangementUuid },
+ *   { placeholder: 'Sermon' },
+ * ]);
+ * await writePlaylist('Sunday Service.proplaylist', service);
+ * ```
+ */
+export function createPlaylist(name: string, items: PlaylistItemInput[] = []): PlaylistDocument {
+  return {
+    type: DOCUMENT_TYPE_PRESENTATION,
+    rootNode: {
+      uuid: generateUuid(),
+      name: 'PRESENTATIONS',
+      type: PLAYLIST_TYPE_ROOT,
+      playlists: {
+        playlists: [
+          {
+            uuid: generateUuid(),
+            name,
+            type: PLAYLIST_TYPE_PLAYLIST,
+            items: { items: items.map(createPlaylistItem) },
+          },
+        ],
+      },
+    },
+  };
+}
+
+// ============================================================================
+// Order of Service
+// ============================================================================
+
+/**
+ * An order of service, e.g. loaded from a YAML or JSON file
+ */
+export interface ServiceOrder {
+  name: string;
+  /** Directories to find songs in (relative to `baseDir`, or starting with `~`) */
+  library?: string | string[];
+  items: ServiceOrderItem[];
+}
+
+/**
+ * A song (by file path or by name in the library), header or placeholder
+ */
+export type ServiceOrderItem =
+  | string
+  | { song: string; arrangement?: string; name?: string }
+  | { header: string; color?: Color }
+  | { placeholder: string };
+
+/**
+ * Find a song's presentation file by path or by name in the library
+ */
+function findSongFile(song: string, baseDir: string, library: string[]): string | null {
+  const names = song.toLowerCase().endsWith('.pro') ? [song] : [`${song}.pro`, song];
+  const candidates = [
+    ...names.map(name => path.resolve(baseDir, name)),
+    ...library.flatMap(dir => names.map(name => path.resolve(baseDir, dir, name))),
+  ];
+  return candidates.find(candidate => existsSync(candidate)) || null;
+}
+
+/**
+ * Build a playlist from an order of service, looking up each song's file and
+ * the arrangement chosen for it
+ */
+export async function buildPlaylist(
+  order: ServiceOrder,
+  options: CodecOptions & { baseDir?: string } = {}
+): Promise<PlaylistDocument> {
+  if (!Array.isArray(order?.items)) throw new Error('Order of service has no items');
+
+  const baseDir = options.baseDir || '.';
+  // Library folders may start with ~ for the home directory
+  const library = (order.library === undefined ? [] : [order.library].flat())
+    .map(dir => dir.replace(/^~(?=$|[\\/])/, os.homedir()));
+  const items: PlaylistItemInput[] = [];
+
+  for (const entry of order.items) {
+    if (typeof entry === 'object' && !('song' in entry)) {
+      items.push(entry);
+      continue;
+    }
+
+    const song = typeof entry === 'string' ? { song: entry } : entry;
+    const filePath = findSongFile(song.song, baseDir, library);
+    if (!filePath) throw new Error(`Song not found: ${song.song}`);
+
+    let arrangement: string | undefined;
+    if (song.arrangement) {
+      const presentation = await readPresentation(filePath, options);
+      const match = findArrangement(presentation, song.arrangement);
+      if (!match?.uuid?.string) {
+        throw new Error(`Arrangement "${song.arrangement}" not found in ${path.basename(filePath)}`);
+      }
+      arrangement = match.uuid.string;
+    }
+
+    items.push({ path: filePath, name: song.name, arrangement });
+  }
+
+  return createPlaylist(order.name || 'Playlist', items);
+}
@@ -0,0 +1,337 @@
+/**
+ * ProPresenter 6 conversion
+ *
+ * Reads ProPresenter 6 `.pro6` documents (XML with base64 RTF inside each
+ * `RVTextElement`) into ProPresenter 7 presentations. Slide groups become cue
+ * groups and each display slide a cue, keeping their UUIDs so arrangements
+ * still refer to the same groups.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  generateUuid,
+  rtfToText,
+  setElementText,
+  textToRtf,
+  type Action,
+  type Arrangement,
+  type Color,
+  type Cue,
+  type GraphicsElement,
+  type Presentation,
+} from './index.js';
+import { createPresentation, type SectionInput } from './create.js';
+import { getSectionColor } from './lyrics.js';
+import { getXmlChildren, getXmlText, parseXml, type XmlElement } from './xml.js';
+
+export interface Pro6ConvertOptions {
+  /** Presentation name (default: the CCLI song title; readPro6 defaults to the file name) */
+  title?: string;
+}
+
+export interface Pro6Conversion {
+  presentation: Presentation;
+  /** Content that couldn't be converted, one line per item */
+  warnings: string[];
+}
+
+const ACTION_TYPE_MEDIA = 2;
+const LAYER_TYPE_BACKGROUND = 0;
+const URL_PLATFORM_MACOS = 1;
+const URL_PLATFORM_WIN32 = 2;
+
+/** Slide elements that carry text; everything else is reported */
+const TEXT_ELEMENTS = ['RVTextElement', 'RVScrollingTextElement'];
+
+interface Pro6TextElement {
+  name: string;
+  uuid?: string;
+  bounds?: { origin: { x: number; y: number }; size: { width: number; height: number } };
+  rtf: Buffer | null;
+  text: string;
+}
+
+interface Pro6Slide {
+  uuid?: string;
+  label: string;
+  enabled: boolean;
+  notes: string;
+  backgroundColor: Color | null;
+  background: { source: string; video: boolean } | null;
+  elements: Pro6TextElement[];
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Find descendants of an element by name, not looking inside matches
+ */
+function findElements(element: XmlElement, name: string): XmlElement[] {
+  return getXmlChildren(element).flatMap(child => (child.name === name ? [child] : findElements(child, name)));
+}
+
+/**
+ * A child by its `rvXMLIvarName` (6) or its `_-Class-_name` tag (5)
+ */
+function getIvar(element: XmlElement, ivar: string): XmlElement | null {
+  return getXmlChildren(element).find(child =>
+    child.attributes.rvXMLIvarName === ivar || child.name.endsWith(`-_${ivar}`)
+  ) || null;
+}
+
+/**
+ * Parse a ProPresenter 6 color ("r g b a", 0-1)
+ */
+function parseColor(value: string | undefined): Color | null {
+  const parts = (value || '').trim().split(/\s+/).map(Number);
+  if (parts.length < 3 || parts.some(Number.isNaN)) return null;
+  const [red, green, blue, alpha = 1] = parts;
+  return { red, green, blue, alpha };
+}
+
+/**
+ * Parse an element position: `{x y z width height}` text (6) or attributes (5)
+ */
+function parsePosition(element: XmlElement | null): Pro6TextElement['bounds'] {
+  if (!element) return undefined;
+  const { x, y, width, height } = element.attributes;
+  const values = width !== undefined
+    ? [x, y, '0', width, height].map(Number)
+    : getXmlText(element).replace(/[{}]/g, '').trim().split(/\s+/).map(Number);
+  if (values.length < 5 || values.some(Number.isNaN)) return undefined;
+  return { origin: { x: values[0], y: values[1] }, size: { width: values[3], height: values[4] } };
+}
+
+function decodeBase64(value: string): Buffer | null {
+  const trimmed = value.replace(/\s+/g, '');
+  return trimmed ? Buffer.from(trimmed, 'base64') : null;
+}
+
+function readTextElement(element: XmlElement): Pro6TextElement {
+  const rtf = decodeBase64(getXmlText(getIvar(element, 'RTFData')) || element.attributes.RTFData || '');
+  const plain = decodeBase64(getXmlText(getIvar(element, 'PlainText')) || element.attributes.PlainText || '');
+  return {
+    name: element.attributes.displayName || '',
+    uuid: element.attributes.UUID,
+    bounds: parsePosition(getIvar(element, 'position')),
+    rtf,
+    text: rtf ? rtfToText(rtf) : plain?.toString('utf8') || '',
+  };
+}
+
+function readSlide(slide: XmlElement, where: string, warnings: string[]): Pro6Slide {
+  const draws = slide.attributes.drawingBackgroundColor === 'true';
+
+  let background: Pro6Slide['background'] = null;
+  const mediaCue = getIvar(slide, 'backgroundMediaCue');
+  const media = mediaCue && getXmlChildren(mediaCue).find(child => child.attributes.source);
+  if (media) {
+    background = { source: media.attributes.source, video: /Video/.test(media.name) };
+  }
+
+  const displayElements = getIvar(slide, 'displayElements');
+  const elements: Pro6TextElement[] = [];
+  for (const element of displayElements ? getXmlChildren(displayElements) : []) {
+    if (TEXT_ELEMENTS.includes(element.name)) {
+      elements.push(readTextElement(element));
+    } else {
+      warnings.push(`${where}: ${element.name} not converted`);
+    }
+  }
+
+  const cues = getIvar(slide, 'cues');
+  for (const cue of cues ? getXmlChildren(cues) : []) {
+    warnings.push(`${where}: ${cue.name} action not converted`);
+  }
+
+  return {
+    uuid: slide.attributes.UUID,
+    label: slide.attributes.label || '',
+    enabled: slide.attributes.enabled !== 'false',
+    notes: slide.attributes.notes || '',
+    backgroundColor: draws ? parseColor(slide.attributes.backgroundColor) : null,
+    background,
+    elements,
+  };
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * URL of a ProPresenter 6 media source, which is a file URL or a
+ * percent-encoded path
+ */
+function mediaUrl(source: string): { absoluteString: string; platform: number } {
+  if (/^[a-z][\w+.-]*:\/\//i.test(source)) {
+    const windows = /^file:\/\/\/[a-z]:/i.test(source);
+    return { absoluteString: source, platform: windows ? URL_PLATFORM_WIN32 : URL_PLATFORM_MACOS };
+  }
+  const filePath = decodeURIComponent(source);
+  const windows = /^[a-z]:[\\/]/i.test(filePath);
+  const urlPath = windows ? `/${filePath.replace(/\\/g, '/')}` : filePath;
+  return { absoluteString: `file://${encodeURI(urlPath)}`, platform: windows ? URL_PLATFORM_WIN32 : URL_PLATFORM_MACOS };
+}
+
+type Media = NonNullable<NonNullable<Action['media']>['element']>;
+
+function createMediaAction(background: NonNullable<Pro6Slide['background']>): Action {
+  const url = mediaUrl(background.source);
+  const element: Media = { uuid: generateUuid(), url };
+  if (background.video) {
+    element.video = {};
+  } else {
+    element.image = {};
+  }
+  return {
+    uuid: generateUuid(),
+    name: decodeURIComponent(url.absoluteString.split('/').pop() || ''),
+    isEnabled: true,
+    type: ACTION_TYPE_MEDIA,
+    media: { element, layerType: LAYER_TYPE_BACKGROUND },
+  };
+}
+
+/**
+ * Carry a ProPresenter 6 slide's elements, colors and media over to the cue
+ * `createPresentation` made for it
+ */
+function applySlide(cue: Cue, slide: Pro6Slide): void {
+  if (slide.uuid) cue.uuid = { string: slide.uuid };
+  if (slide.label) cue.name = slide.label;
+  cue.isEnabled = slide.enabled;
+
+  const presentationSlide = cue.actions![0].slide!.presentation!;
+  const base = presentationSlide.baseSlide!;
+  const [template] = base.elements!;
+  base.elements = slide.elements.map(source => {
+    const element: GraphicsElement = structuredClone(template.element!);
+    element.uuid = source.uuid ? { string: source.uuid } : generateUuid();
+    if (source.rtf) {
+      // Keep ProPresenter 6's own RTF, with its fonts and colors
+      element.text!.rtfData = source.rtf;
+    } else {
+      // Plain text only: the template holds the first element's text
+      setElementText(element, source.text);
+    }
+    element.name = source.name;
+    if (source.bounds) element.bounds = source.bounds;
+    return { ...template, element };
+  });
+
+  base.drawsBackgroundColor = slide.backgroundColor !== null;
+  if (slide.backgroundColor) base.backgroundColor = slide.backgroundColor;
+
+  if (slide.notes) presentationSlide.notes = { rtfData: Buffer.from(textToRtf(slide.notes)) };
+
+  if (slide.background) cue.actions!.unshift(createMediaAction(slide.background));
+}
+
+/**
+ * Convert a ProPresenter 6 document to a presentation
+ *
+ * Slide groups, slides, text elements (with their original RTF and geometry),
+ * slide notes, background colors and media, arrangements and CCLI details are
+ * converted. Anything else, such as image elements and slide cues, is listed
+ * in `warnings`.
+ *
+ * @example
+ * ```typescript
+ * const source = await fs.readFile('Amazing Grace.pro6', 'utf8');
+ * const { presentation, warnings } = convertPro6(source, { title: 'Amazing Grace' });
+ * await writePresentation('Amazing Grace.pro', presentation);
+ * ```
+ */
+export function convertPro6(source: string, options: Pro6ConvertOptions = {}): Pro6Conversion {
+  const document = parseXml(source);
+  if (document.name !== 'RVPresentationDocument') {
+    throw new Error(`Not a ProPresenter 6 document: root element is <${document.name}>`);
+  }
+
+  const attributes = document.attributes;
+  const warnings: string[] = [];
+
+  const groups = findElements(document, 'RVSlideGrouping').map((group, groupIndex) => {
+    const name = group.attributes.name || `Group ${groupIndex + 1}`;
+    const slides = findElements(group, 'RVDisplaySlide').map((slide, slideIndex) =>
+      readSlide(slide, `${name}, slide ${slideIndex + 1}`, warnings)
+    );
+    return { name, uuid: group.attributes.uuid, color: parseColor(group.attributes.color), slides };
+  });
+
+  const sections: SectionInput[] = groups.map(group => ({
+    name: group.name,
+    slides: group.slides.map(slide => ({ text: slide.elements[0]?.text || '' })),
+    color: group.color && (group.color.alpha ?? 1) > 0 ? group.color : getSectionColor(group.name),
+  }));
+
+  const width = parseFloat(attributes.width);
+  const height = parseFloat(attributes.height);
+  const ccliNumber = parseInt(attributes.CCLISongNumber || '', 10);
+  const copyrightYear = parseInt(attributes.CCLICopyrightYear || '', 10);
+
+  const presentation = createPresentation({
+    title: options.title || attributes.CCLISongTitle || 'Untitled',
+    artist: attributes.CCLIArtistCredits || undefined,
+    ccliNumber: Number.isNaN(ccliNumber) ? undefined : ccliNumber,
+    ccliAuthor: attributes.CCLIAuthor || undefined,
+    copyrightYear: Number.isNaN(copyrightYear) ? undefined : copyrightYear,
+    publisher: attributes.CCLIPublisher || undefined,
+    category: attributes.category,
+    notes: attributes.notes,
+    slideSize: width > 0 && height > 0 ? { width, height } : undefined,
+    sections,
+    createArrangement: false,
+  });
+
+  if (presentation.ccli) {
+    presentation.ccli.songTitle = attributes.CCLISongTitle || presentation.ccli.songTitle;
+    presentation.ccli.display = attributes.CCLIDisplay !== 'false';
+  }
+
+  // Keep the ProPresenter 6 UUIDs, which the arrangements refer to
+  const cues = new Map<string, Cue>(presentation.cues!.map(cue => [cue.uuid!.string!, cue]));
+  presentation.cueGroups!.forEach((cueGroup, groupIndex) => {
+    const group = groups[groupIndex];
+    if (group.uuid) cueGroup.group!.uuid = { string: group.uuid };
+
+    cueGroup.cueIdentifiers = cueGroup.cueIdentifiers!.map((identifier, slideIndex) => {
+      const cue = cues.get(identifier.string!)!;
+      applySlide(cue, group.slides[slideIndex]);
+      return cue.uuid!;
+    });
+  });
+
+  const groupIds = new Set(groups.map(group => group.uuid).filter(Boolean));
+  const arrangements: Arrangement[] = findElements(document, 'RVSongArrangement').map(arrangement => {
+    const name = arrangement.attributes.name || 'Arrangement';
+    const ids = getXmlChildren(getIvar(arrangement, 'groupIDs') || arrangement).map(getXmlText);
+    for (const id of ids.filter(id => !groupIds.has(id))) {
+      warnings.push(`Arrangement "${name}": missing group ${id} dropped`);
+    }
+    return {
+      uuid: arrangement.attributes.uuid ? { string: arrangement.attributes.uuid } : generateUuid(),
+      name,
+      groupIdentifiers: ids.filter(id => groupIds.has(id)).map(id => ({ string: id })),
+    };
+  });
+
+  presentation.arrangements = arrangements;
+  const selected = arrangements.find(arrangement => arrangement.uuid!.string === attributes.selectedArrangementID);
+  if (selected) presentation.selectedArrangement = selected.uuid;
+
+  return { presentation, warnings };
+}
+
+/**
+ * Read and convert a `.pro6` file, named after the file unless the options
+ * give a title
+ */
+export async function readPro6(filePath: string, options: Pro6ConvertOptions = {}): Promise<Pro6Conversion> {
+  const source = await fs.readFile(filePath, 'utf8');
+  return convertPro6(source, { ...options, title: options.title || path.basename(filePath, path.extname(filePath)) });
+}
@@ -0,0 +1,873 @@
+/**
+ * RTF parsing and serialization
+ *
+ * ProPresenter stores slide text as RTF (written by Cocoa on macOS and by
+ * RichEdit on Windows). This module turns RTF into a small document model -
+ * font table, color table, paragraphs and styled runs - and writes it back,
+ * so text can be edited without losing the formatting around it.
+ */
+
+// ============================================================================
+// Document Model
+// ============================================================================
+
+/**
+ * A control word with its optional numeric parameter, e.g. `\fs96`
+ */
+export interface RtfControl {
+  word: string;
+  param?: number;
+}
+
+export interface RtfFont {
+  /** Index used by `\fN` */
+  index: number;
+  name: string;
+  /** Font family control word, e.g. 'fswiss' or 'fnil' */
+  family?: string;
+  /** `\fcharset` value, used to decode `\'hh` escapes in this font */
+  charset?: number;
+}
+
+export interface RtfColor {
+  /** 0-255 */
+  red: number;
+  /** 0-255 */
+  green: number;
+  /** 0-255 */
+  blue: number;
+}
+
+/** How a paragraph was terminated: `\par`, `\line` or Cocoa's backslash-newline */
+export type RtfBreak = 'par' | 'line' | 'newline';
+
+export interface RtfRun {
+  text: string;
+  /** Character formatting in effect for this run (`\f`, `\fs`, `\cf`, `\b`, ...) */
+  format: RtfControl[];
+}
+
+export interface RtfParagraph {
+  /** Always at least one run, possibly empty, so blank lines keep their size */
+  runs: RtfRun[];
+  /** Paragraph formatting (`\qc`, `\sl`, `\partightenfactor`, ...) */
+  format: RtfControl[];
+  /** Break that ends this paragraph; absent on the last paragraph */
+  break?: RtfBreak;
+}
+
+export interface RtfDocument {
+  /** Control words before the font table (`\rtf1`, `\ansi`, `\ansicpg1252`, ...) */
+  header: RtfControl[];
+  fonts: RtfFont[];
+  /** Color table; `null` is the "auto" entry (usually index 0) */
+  colors: (RtfColor | null)[];
+  /** Other header groups such as `{\*\expandedcolortbl ...}`, kept verbatim */
+  destinations: string[];
+  /** Document settings after the tables (`\deftab`, `\paperw`, ...) */
+  settings: RtfControl[];
+  paragraphs: RtfParagraph[];
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type RtfToken =
+  | { type: 'groupStart'; offset: number }
+  | { type: 'groupEnd'; offset: number }
+  | { type: 'control'; word: string; param?: number; offset: number }
+  | { type: 'symbol'; char: string; offset: number }
+  | { type: 'hex'; byte: number; offset: number }
+  | { type: 'text'; text: string; offset: number };
+
+function* tokenize(rtf: string): Generator<RtfToken> {
+  let i = 0;
+  while (i < rtf.length) {
+    const ch = rtf[i];
+    const offset = i;
+
+    if (ch === '{') {
+      i++;
+      yield { type: 'groupStart', offset };
+    } else if (ch === '}') {
+      i++;
+      yield { type: 'groupEnd', offset };
+    } else if (ch === '\\') {
+      const next = rtf[i + 1];
+      if (next === undefined) {
+        i++;
+      } else if (/[a-zA-Z]/.test(next)) {
+        let j = i + 1;
+        while (j < rtf.length && /[a-zA-Z]/.test(rtf[j])) j++;
+        const word = rtf.slice(i + 1, j);
+        let param: number | undefined;
+        const match = /^-?\d+/.exec(rtf.slice(j, j + 12));
+        if (match) {
+          param = parseInt(match[0], 10);
+          j += match[0].length;
+        }
+        // A single space delimits the control word and is not part of the text
+        if (rtf[j] === ' ') j++;
+        i = j;
+        yield { type: 'control', word, param, offset };
+      } else if (next === "'") {
+        const hex = rtf.slice(i + 2, i + 4);
+        i += 4;
+        if (/^[0-9a-fA-F]{2}$/.test(hex)) {
+          yield { type: 'hex', byte: parseInt(hex, 16), offset };
+        }
+      } else if (next === '\r' || next === '\n') {
+        i += next === '\r' && rtf[i + 2] === '\n' ? 3 : 2;
+        yield { type: 'symbol', char: '\n', offset };
+      } else {
+        i += 2;
+        yield { type: 'symbol', char: next, offset };
+      }
+    } else if (ch === '\r' || ch === '\n') {
+      // Raw line endings are not content in RTF
+      i++;
+    } else {
+      let j = i;
+      while (j < rtf.length && !'\\{}\r\n'.includes(rtf[j])) j++;
+      i = j;
+      yield { type: 'text', text: rtf.slice(offset, j), offset };
+    }
+  }
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/** Character formatting words, mapped to the slot they occupy */
+const CHARACTER_WORDS: Record<string, string> = {
+  f: 'f', fs: 'fs', cf: 'cf', cb: 'cb', chcbpat: 'cb', highlight: 'highlight',
+  b: 'b', i: 'i', strike: 'strike', striked: 'strike', caps: 'caps', scaps: 'scaps',
+  outl: 'outl', shad: 'shad', v: 'v', expnd: 'expnd', expndtw: 'expndtw',
+  kerning: 'kerning', charscalex: 'charscalex', strokewidth: 'strokewidth', strokec: 'strokec',
+  super: 'script', sub: 'script', nosupersub: 'script', up: 'script', dn: 'script',
+  ul: 'ul', ulnone: 'ul', uld: 'ul', uldb: 'ul', ulw: 'ul', ulth: 'ul', ulc: 'ulc',
+  lang: 'lang', langfe: 'langfe', langnp: 'langnp', loch: 'charset', hich: 'charset', dbch: 'charset',
+  CocoaLigature: 'CocoaLigature', shadr: 'shadr', shadx: 'shadx', shady: 'shady',
+};
+
+/** Paragraph formatting words, mapped to the slot they occupy */
+const PARAGRAPH_WORDS: Record<string, string> = {
+  ql: 'align', qc: 'align', qr: 'align', qj: 'align', qd: 'align', qn: 'align',
+  li: 'li', ri: 'ri', fi: 'fi', sb: 'sb', sa: 'sa', sl: 'sl', slmult: 'slmult',
+  slleading: 'slleading', slmaximum: 'slmaximum', slminimum: 'slminimum',
+  pardirnatural: 'dir', ltrpar: 'dir', rtlpar: 'dir',
+  partightenfactor: 'partightenfactor', pardeftab: 'pardeftab',
+  keep: 'keep', keepn: 'keepn', widctlpar: 'widctl', nowidctlpar: 'widctl',
+  hyphpar: 'hyphpar', sbauto: 'sbauto', saauto: 'saauto', qk: 'qk',
+};
+
+/** Paragraph words that may repeat (tab stops) */
+const PARAGRAPH_LIST_WORDS = new Set(['tx', 'tb', 'tqr', 'tqc', 'tqdec', 'tldot', 'tlhyph', 'tlul', 'tlth', 'tleq']);
+
+/** Control words that insert a single character */
+const CHARACTER_CONTROLS: Record<string, string> = {
+  tab: '\t', emdash: '\u2014', endash: '\u2013', emspace: '\u2003', enspace: '\u2002',
+  qmspace: '\u2005', bullet: '\u2022', lquote: '\u2018', rquote: '\u2019',
+  ldblquote: '\u201C', rdblquote: '\u201D', zwj: '\u200D', zwnj: '\u200C',
+};
+
+/** Control symbols that insert a single character */
+const CHARACTER_SYMBOLS: Record<string, string> = {
+  '\\': '\\', '{': '{', '}': '}', '~': '\u00A0', '_': '\u2011',
+};
+
+/** Destinations whose content is never slide text */
+const IGNORED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'header', 'footer', 'headerl', 'headerr',
+  'footerl', 'footerr', 'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'xmlnstbl',
+  'themedata', 'latentstyles', 'datastore', 'colorschememapping', 'fldinst', 'object', 'filetbl',
+]);
+
+const FONT_FAMILIES = new Set(['fnil', 'froman', 'fswiss', 'fmodern', 'fscript', 'fdecor', 'ftech', 'fbidi']);
+
+/** Windows code pages for `\fcharset` values */
+const CHARSET_CODEPAGES: Record<number, number> = {
+  77: 10000, 128: 932, 129: 949, 130: 1361, 134: 936, 136: 950,
+  161: 1253, 162: 1254, 163: 1258, 177: 1255, 178: 1256, 186: 1257,
+  204: 1251, 222: 874, 238: 1250,
+};
+
+/** TextDecoder labels for code pages that are not `windows-NNNN` */
+const CODEPAGE_LABELS: Record<number, string> = {
+  437: 'ibm866', 932: 'shift_jis', 936: 'gbk', 949: 'euc-kr', 950: 'big5',
+  10000: 'macintosh', 874: 'windows-874', 1361: 'euc-kr',
+};
+
+const decoders = new Map<number, TextDecoder | null>();
+
+/**
+ * Decode bytes from a `\'hh` sequence using a Windows code page
+ */
+function decodeCodepage(bytes: number[], codepage: number): string {
+  if (!decoders.has(codepage)) {
+    const label = CODEPAGE_LABELS[codepage] || `windows-${codepage}`;
+    try {
+      decoders.set(codepage, new TextDecoder(label));
+    } catch {
+      decoders.set(codepage, null);
+    }
+  }
+  const decoder = decoders.get(codepage);
+  if (!decoder) return String.fromCharCode(...bytes);
+  return decoder.decode(Uint8Array.from(bytes));
+}
+
+interface ParserState {
+  destination: 'body' | 'fonttbl' | 'colortbl' | 'skip';
+  character: Map<string, RtfControl>;
+  paragraph: Map<string, RtfControl>;
+  unicodeSkip: number;
+}
+
+function cloneState(state: ParserState): ParserState {
+  return {
+    destination: state.destination,
+    character: new Map(state.character),
+    paragraph: new Map(state.paragraph),
+    unicodeSkip: state.unicodeSkip,
+  };
+}
+
+function formatKey(format: RtfControl[]): string {
+  return format.map(c => `\\${c.word}${c.param ?? ''}`).join('');
+}
+
+/**
+ * Convert raw RTF bytes to a string
+ */
+function rtfInputToString(rtfData: Uint8Array | Buffer | string): string {
+  if (typeof rtfData === 'string') return rtfData;
+  if (Buffer.isBuffer(rtfData)) return rtfData.toString('utf-8');
+  return Buffer.from(rtfData).toString('utf-8');
+}
+
+/**
+ * Parse RTF into a document model
+ */
+export function parseRtf(rtfData: Uint8Array | Buffer | string): RtfDocument {
+  const rtf = rtfInputToString(rtfData);
+  const doc: RtfDocument = {
+    header: [],
+    fonts: [],
+    colors: [],
+    destinations: [],
+    settings: [],
+    paragraphs: [],
+  };
+
+  let state: ParserState = {
+    destination: 'body',
+    character: new Map(),
+    paragraph: new Map(),
+    unicodeSkip: 1,
+  };
+  const stack: ParserState[] = [];
+  let depth = 0;
+
+  // Header bookkeeping
+  let tablesSeen = false;
+  let rawGroupStart = -1;
+  let rawGroupDepth = 0;
+
+  // Font and color table bookkeeping
+  let currentFont: RtfFont | null = null;
+  let currentColor: RtfColor | null = null;
+
+  // Body bookkeeping
+  let ansiCodepage = 1252;
+  let pendingBytes: number[] = [];
+  let pendingSkip = 0;
+  let paragraph: RtfParagraph = { runs: [], format: [] };
+  let expectDestination = false;
+  let tabStopCount = 0;
+
+  const currentCodepage = (): number => {
+    const fontControl = state.character.get('f');
+    if (fontControl?.param !== undefined) {
+      const font = doc.fonts.find(f => f.index === fontControl.param);
+      if (font?.charset !== undefined && CHARSET_CODEPAGES[font.charset]) {
+        return CHARSET_CODEPAGES[font.charset];
+      }
+    }
+    return ansiCodepage;
+  };
+
+  const appendText = (text: string) => {
+    if (!text) return;
+    const format = [...state.character.values()];
+    const last = paragraph.runs[paragraph.runs.length - 1];
+    if (last && formatKey(last.format) === formatKey(format)) {
+      last.text += text;
+    } else {
+      paragraph.runs.push({ text, format });
+    }
+  };
+
+  const flushBytes = () => {
+    if (pendingBytes.length === 0) return;
+    const text = decodeCodepage(pendingBytes, currentCodepage());
+    pendingBytes = [];
+    if (state.destination === 'body') {
+      appendText(text);
+    } else if (state.destination === 'fonttbl' && currentFont) {
+      currentFont.name += text;
+    }
+  };
+
+  const closeParagraph = (kind?: RtfBreak) => {
+    if (paragraph.runs.length === 0) {
+      paragraph.runs.push({ text: '', format: [...state.character.values()] });
+    }
+    paragraph.format = [...state.paragraph.values()];
+    if (kind) paragraph.break = kind;
+    doc.paragraphs.push(paragraph);
+    paragraph = { runs: [], format: [] };
+  };
+
+  /** Consume one character of `\uN` fallback text if one is pending */
+  const skipFallback = (): boolean => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return true;
+    }
+    return false;
+  };
+
+  for (const token of tokenize(rtf)) {
+    if (token.type !== 'hex') flushBytes();
+
+    if (token.type === 'groupStart') {
+      stack.push(state);
+      state = cloneState(state);
+      depth++;
+      expectDestination = true;
+      pendingSkip = 0;
+      if (depth === 2 && rawGroupStart < 0) {
+        rawGroupStart = token.offset;
+        rawGroupDepth = depth;
+      }
+      continue;
+    }
+
+    const isFirstInGroup = expectDestination;
+    expectDestination = false;
+
+    if (token.type === 'groupEnd') {
+      if (rawGroupStart >= 0 && depth === rawGroupDepth) {
+        // Keep unknown header groups (e.g. \*\expandedcolortbl) verbatim
+        if (state.destination === 'skip' && doc.paragraphs.length === 0 && !hasBodyContent(paragraph)) {
+          doc.destinations.push(rtf.slice(rawGroupStart, token.offset + 1));
+        }
+        rawGroupStart = -1;
+      }
+      if (depth === 1 && hasBodyContent(paragraph)) {
+        // Close the last paragraph while the document's formatting is still in scope
+        closeParagraph();
+      }
+      state = stack.pop() || state;
+      depth--;
+      pendingSkip = 0;
+      continue;
+    }
+
+    if (token.type === 'control' || (token.type === 'symbol' && token.char === '*')) {
+      const word = token.type === 'control' ? token.word : '*';
+      const param = token.type === 'control' ? token.param : undefined;
+
+      // Destination handling
+      if (word === '*') {
+        if (isFirstInGroup) state.destination = 'skip';
+        continue;
+      }
+      if (isFirstInGroup && word === 'fonttbl') {
+        state.destination = 'fonttbl';
+        tablesSeen = true;
+        if (depth === 2) rawGroupStart = -1;
+        continue;
+      }
+      if (isFirstInGroup && word === 'colortbl') {
+        state.destination = 'colortbl';
+        tablesSeen = true;
+        if (depth === 2) rawGroupStart = -1;
+        continue;
+      }
+      if (isFirstInGroup && IGNORED_DESTINATIONS.has(word)) {
+        state.destination = 'skip';
+        tablesSeen = true;
+        continue;
+      }
+      if (depth === 2 && rawGroupStart >= 0 && state.destination === 'body') {
+        // A formatting group in the body, not a header destination
+        rawGroupStart = -1;
+      }
+
+      if (state.destination === 'skip') continue;
+
+      if (state.destination === 'fonttbl') {
+        if (word === 'f' && param !== undefined) {
+          currentFont = { index: param, name: '' };
+          doc.fonts.push(currentFont);
+        } else if (currentFont && FONT_FAMILIES.has(word)) {
+          currentFont.family = word;
+        } else if (currentFont && word === 'fcharset') {
+          currentFont.charset = param;
+        } else if (word === 'u' && currentFont && param !== undefined) {
+          currentFont.name += String.fromCharCode(param < 0 ? param + 65536 : param);
+          pendingSkip = state.unicodeSkip;
+        }
+        continue;
+      }
+
+      if (state.destination === 'colortbl') {
+        if (!currentColor) currentColor = { red: 0, green: 0, blue: 0 };
+        if (word === 'red') currentColor.red = param ?? 0;
+        else if (word === 'green') currentColor.green = param ?? 0;
+        else if (word === 'blue') currentColor.blue = param ?? 0;
+        continue;
+      }
+
+      // Body
+      if (word === 'u' && param !== undefined) {
+        appendText(String.fromCharCode(param < 0 ? param + 65536 : param));
+        pendingSkip = state.unicodeSkip;
+        continue;
+      }
+      if (skipFallback()) continue;
+
+      if (word === 'uc') {
+        state.unicodeSkip = param ?? 1;
+      } else if (word === 'par') {
+        closeParagraph('par');
+      } else if (word === 'line') {
+        closeParagraph('line');
+      } else if (CHARACTER_CONTROLS[word]) {
+        appendText(CHARACTER_CONTROLS[word]);
+      } else if (word === 'plain') {
+        state.character.clear();
+      } else if (word === 'pard') {
+        state.paragraph.clear();
+        tabStopCount = 0;
+      } else if (CHARACTER_WORDS[word]) {
+        const slot = CHARACTER_WORDS[word];
+        state.character.delete(slot);
+        state.character.set(slot, { word, param });
+      } else if (PARAGRAPH_WORDS[word]) {
+        state.paragraph.set(PARAGRAPH_WORDS[word], { word, param });
+      } else if (PARAGRAPH_LIST_WORDS.has(word)) {
+        state.paragraph.set(`${word}#${tabStopCount++}`, { word, param });
+      } else if (depth === 1) {
+        if (word === 'ansicpg' && param !== undefined) ansiCodepage = param;
+        if (word === 'mac') ansiCodepage = 10000;
+        (tablesSeen ? doc.settings : doc.header).push({ word, param });
+      }
+      continue;
+    }
+
+    if (token.type === 'symbol') {
+      if (state.destination !== 'body') continue;
+      if (skipFallback()) continue;
+      if (token.char === '\n') {
+        closeParagraph('newline');
+      } else if (CHARACTER_SYMBOLS[token.char]) {
+        appendText(CHARACTER_SYMBOLS[token.char]);
+      }
+      continue;
+    }
+
+    if (token.type === 'hex') {
+      if (state.destination === 'colortbl' || state.destination === 'skip') continue;
+      if (skipFallback()) continue;
+      pendingBytes.push(token.byte);
+      continue;
+    }
+
+    // Text
+    let text = token.text;
+    if (state.destination === 'fonttbl') {
+      if (!currentFont) continue;
+      while (pendingSkip > 0 && text.length > 0) {
+        text = text.slice(1);
+        pendingSkip--;
+      }
+      const semicolon = text.indexOf(';');
+      if (semicolon >= 0) {
+        currentFont.name = (currentFont.name + text.slice(0, semicolon)).trim();
+        currentFont = null;
+      } else {
+        currentFont.name += text;
+      }
+      continue;
+    }
+    if (state.destination === 'colortbl') {
+      for (const ch of text) {
+        if (ch === ';') {
+          doc.colors.push(currentColor);
+          currentColor = null;
+        }
+      }
+      continue;
+    }
+    if (state.destination === 'skip') continue;
+
+    while (pendingSkip > 0 && text.length > 0) {
+      text = text.slice(1);
+      pendingSkip--;
+    }
+    appendText(text);
+  }
+  flushBytes();
+
+  // The text after the last break is a paragraph only if it has content
+  if (hasBodyContent(paragraph) || doc.paragraphs.length === 0) {
+    closeParagraph();
+  }
+
+  return doc;
+}
+
+function hasBodyContent(paragraph: RtfParagraph): boolean {
+  return paragraph.runs.some(run => run.text.length > 0);
+}
+
+// ============================================================================
+// Text Access
+// ============================================================================
+
+/**
+ * Get the plain text of an RTF document, one line per paragraph
+ *
+ * Cocoa's soft line break (U+2028) is returned as '\n' too, which keeps
+ * character offsets aligned with ProPresenter's chord ranges.
+ */
+export function getRtfText(doc: RtfDocument): string {
+  return doc.paragraphs
+    .map(p => p.runs.map(r => r.text).join(''))
+    .join('\n')
+    .replace(/\u2028/g, '\n');
+}
+
+/**
+ * Look up the font used by a run
+ */
+export function getRunFont(doc: RtfDocument, run: RtfRun): RtfFont | undefined {
+  const control = run.format.find(c => c.word === 'f');
+  return doc.fonts.find(f => f.index === (control?.param ?? 0));
+}
+
+/**
+ * Get a run's font size in points
+ */
+export function getRunFontSize(run: RtfRun): number | undefined {
+  const control = run.format.find(c => c.word === 'fs');
+  return control?.param !== undefined ? control.param / 2 : undefined;
+}
+
+/**
+ * Look up the foreground color used by a run
+ */
+export function getRunColor(doc: RtfDocument, run: RtfRun): RtfColor | null {
+  const control = run.format.find(c => c.word === 'cf');
+  if (control?.param === undefined) return null;
+  return doc.colors[control.param] ?? null;
+}
+
+// ============================================================================
+// Text Editing
+// ============================================================================
+
+/**
+ * A single contiguous replacement between two versions of a text
+ */
+export interface TextEdit {
+  /** Offset where the texts start to differ */
+  start: number;
+  /** End of the replaced range in the old text */
+  oldEnd: number;
+  /** End of the inserted range in the new text */
+  newEnd: number;
+}
+
+/**
+ * Describe the change from one text to another as a single replacement,
+ * keeping the longest common prefix and suffix untouched
+ */
+export function computeTextEdit(oldText: string, newText: string): TextEdit {
+  const maxPrefix = Math.min(oldText.length, newText.length);
+  let start = 0;
+  while (start < maxPrefix && oldText[start] === newText[start]) start++;
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - start;
+  while (
+    suffix < maxSuffix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return { start, oldEnd: oldText.length - suffix, newEnd: newText.length - suffix };
+}
+
+/**
+ * Map an offset in the old text to the new text. Offsets inside the replaced
+ * range keep their distance from its start while it still fits.
+ */
+export function mapTextOffset(edit: TextEdit, offset: number): number {
+  if (offset <= edit.start) return offset;
+  if (offset >= edit.oldEnd) return offset + (edit.newEnd - edit.oldEnd);
+  return edit.start + Math.min(offset - edit.start, edit.newEnd - edit.start);
+}
+
+interface StyledChar {
+  char: string;
+  format: RtfControl[];
+  /** Paragraph the character belongs to; breaks belong to the paragraph they end */
+  paragraph: number;
+  isBreak: boolean;
+}
+
+/**
+ * Replace the text of a document while keeping its styling. Unchanged text
+ * keeps its runs, inserted text takes the style of the text it follows, and
+ * paragraphs keep their alignment and spacing.
+ */
+export function setRtfText(doc: RtfDocument, text: string): RtfDocument {
+  const old: StyledChar[] = [];
+  doc.paragraphs.forEach((paragraph, index) => {
+    for (const run of paragraph.runs) {
+      for (const char of run.text.split('')) {
+        old.push({ char, format: run.format, paragraph: index, isBreak: false });
+      }
+    }
+    if (index < doc.paragraphs.length - 1) {
+      const lastRun = paragraph.runs[paragraph.runs.length - 1];
+      old.push({ char: '\n', format: lastRun?.format || [], paragraph: index, isBreak: true });
+    }
+  });
+
+  const oldText = old.map(c => (c.char === '\u2028' ? '\n' : c.char)).join('');
+  const edit = computeTextEdit(oldText, text);
+  const defaultBreak = doc.paragraphs.find(p => p.break)?.break || 'par';
+  const anchor = old[edit.start - 1] || old[edit.oldEnd];
+  const insertedFormat = anchor?.format || doc.paragraphs[0]?.runs[0]?.format || [];
+
+  const paragraphs: RtfParagraph[] = [];
+  let current: RtfParagraph = { runs: [], format: doc.paragraphs[0]?.format || [] };
+  let lastFormat = old[0]?.format || insertedFormat;
+
+  const append = (char: string, format: RtfControl[]) => {
+    const last = current.runs[current.runs.length - 1];
+    if (last && formatKey(last.format) === formatKey(format)) {
+      last.text += char;
+    } else {
+      current.runs.push({ text: char, format: [...format] });
+    }
+    lastFormat = format;
+  };
+
+  const breakParagraph = (kind: RtfBreak, nextFormat: RtfControl[]) => {
+    if (current.runs.length === 0) current.runs.push({ text: '', format: [...lastFormat] });
+    current.break = kind;
+    paragraphs.push(current);
+    current = { runs: [], format: [...nextFormat] };
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const source = i < edit.start ? old[i] : i >= edit.newEnd ? old[i - edit.newEnd + edit.oldEnd] : null;
+
+    if (source) {
+      if (source.isBreak) {
+        const next = doc.paragraphs[source.paragraph + 1] || doc.paragraphs[source.paragraph];
+        breakParagraph(doc.paragraphs[source.paragraph].break || defaultBreak, next.format);
+      } else {
+        append(source.char, source.format);
+      }
+    } else if (text[i] === '\n') {
+      breakParagraph(defaultBreak, current.format);
+    } else {
+      append(text[i], insertedFormat);
+    }
+  }
+
+  if (current.runs.length === 0) current.runs.push({ text: '', format: [...lastFormat] });
+  paragraphs.push(current);
+
+  return { ...doc, paragraphs };
+}
+
+// ============================================================================
+// Serializer
+// ============================================================================
+
+/** Words that switch a character property back off */
+const CHARACTER_RESETS: Record<string, string> = {
+  b: 'b0', i: 'i0', strike: 'strike0', caps: 'caps0', scaps: 'scaps0', outl: 'outl0',
+  shad: 'shad0', v: 'v0', ul: 'ulnone', script: 'nosupersub', cf: 'cf0', cb: 'cb0',
+  highlight: 'highlight0', expnd: 'expnd0', expndtw: 'expndtw0', kerning: 'kerning0',
+  strokewidth: 'strokewidth0',
+};
+
+function controlToString(control: RtfControl): string {
+  return `\\${control.word}${control.param ?? ''}`;
+}
+
+function slotOf(control: RtfControl): string {
+  return CHARACTER_WORDS[control.word] || control.word;
+}
+
+/**
+ * Escape text for use in an RTF body
+ */
+function escapeRtfText(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if (ch === '\\' || ch === '{' || ch === '}') {
+      out += `\\${ch}`;
+    } else if (ch === '\t') {
+      out += '\\tab ';
+    } else if (ch === '\u00A0') {
+      out += '\\~';
+    } else if (code < 0x20) {
+      continue;
+    } else if (code < 0x80) {
+      out += ch;
+    } else {
+      // \uN takes a signed 16-bit value; astral characters become surrogate pairs
+      for (let k = 0; k < ch.length; k++) {
+        const unit = ch.charCodeAt(k);
+        out += `\\uc0\\u${unit > 32767 ? unit - 65536 : unit} `;
+      }
+    }
+  }
+  return out;
+}
+
+function escapeFontName(name: string): string {
+  return escapeRtfText(name).replace(/;/g, '');
+}
+
+/**
+ * Serialize an RTF document model back to RTF
+ */
+export function serializeRtf(doc: RtfDocument): string {
+  let out = '{';
+
+  const header = doc.header.some(c => c.word === 'rtf')
+    ? doc.header
+    : [{ word: 'rtf', param: 1 }, ...doc.header];
+  out += header.map(controlToString).join('');
+  out += '\n';
+
+  if (doc.fonts.length > 0) {
+    out += '{\\fonttbl';
+    for (const font of doc.fonts) {
+      out += `\\f${font.index}`;
+      if (font.family) out += `\\${font.family}`;
+      if (font.charset !== undefined) out += `\\fcharset${font.charset}`;
+      out += ` ${escapeFontName(font.name)};`;
+    }
+    out += '}\n';
+  }
+
+  if (doc.colors.length > 0) {
+    out += '{\\colortbl';
+    for (const color of doc.colors) {
+      if (color) out += `\\red${color.red}\\green${color.green}\\blue${color.blue}`;
+      out += ';';
+    }
+    out += '}\n';
+  }
+
+  for (const destination of doc.destinations) {
+    out += destination + '\n';
+  }
+
+  if (doc.settings.length > 0) {
+    out += doc.settings.map(controlToString).join('') + '\n';
+  }
+
+  let paragraphKey: string | null = null;
+  let character = new Map<string, RtfControl>();
+
+  for (const paragraph of doc.paragraphs) {
+    const key = formatKey(paragraph.format);
+    if (key !== paragraphKey) {
+      out += '\\pard' + key + ' ';
+      paragraphKey = key;
+    }
+
+    for (const run of paragraph.runs) {
+      const next = new Map(run.format.map(c => [slotOf(c), c] as [string, RtfControl]));
+      let controls = '';
+
+      const removed = [...character.keys()].filter(slot => !next.has(slot));
+      if (removed.some(slot => !CHARACTER_RESETS[slot])) {
+        controls += '\\plain';
+        character = new Map();
+      } else {
+        for (const slot of removed) controls += `\\${CHARACTER_RESETS[slot]}`;
+      }
+      for (const [slot, control] of next) {
+        const current = character.get(slot);
+        if (!current || current.word !== control.word || current.param !== control.param) {
+          controls += controlToString(control);
+        }
+      }
+      character = next;
+
+      if (controls) out += controls + ' ';
+      out += escapeRtfText(run.text);
+    }
+
+    switch (paragraph.break) {
+      case 'par': out += '\\par\n'; break;
+      case 'line': out += '\\line\n'; break;
+      case 'newline': out += '\\\n'; break;
+    }
+  }
+
+  out += '}';
+  return out;
+}
+
+// ============================================================================
+// Construction
+// ============================================================================
+
+export interface CreateRtfOptions {
+  /** Font name (default: 'Arial') */
+  fontName?: string;
+  /** Font size in points (default: 48) */
+  fontSize?: number;
+}
+
+/**
+ * Create a single-font RTF document for plain text
+ */
+export function createRtfDocument(text: string, options: CreateRtfOptions = {}): RtfDocument {
+  const fontName = options.fontName || 'Arial';
+  const fontSize = options.fontSize || 48;
+  const format: RtfControl[] = [{ word: 'f', param: 0 }, { word: 'fs', param: fontSize * 2 }];
+  const lines = text.split('\n');
+
+  return {
+    header: [{ word: 'rtf', param: 1 }, { word: 'ansi' }, { word: 'ansicpg', param: 1252 }, { word: 'deff', param: 0 }],
+    fonts: [{ index: 0, name: fontName, family: 'fnil', charset: 0 }],
+    colors: [],
+    destinations: [],
+    settings: [],
+    paragraphs: lines.map((line, i) => ({
+      runs: [{ text: line, format: [...format] }],
+      format: [],
+      break: i < lines.length - 1 ? 'par' as const : undefined,
+    })),
+  };
+}
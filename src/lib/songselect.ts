@@ -0,0 +1,158 @@
+/**
+ * CCLI SongSelect import
+ *
+ * Reads the two SongSelect lyric downloads: the `.txt` lyrics (title, section
+ * headings, blank lines and a CCLI footer) and the older `.usr` file (an INI
+ * file with `Fields=` and `Words=` lists). Both carry the CCLI song number,
+ * authors and copyright, which go into the presentation's CCLI details.
+ */
+
+import { splitSlides, type CreatePresentationOptions, type SectionInput } from './create.js';
+import { parseCopyright } from './chordpro.js';
+import { getSectionColor, parseLyrics, parseSectionHeading, SECTION_WORDS, type LyricsImportOptions } from './lyrics.js';
+import { parseMusicKey } from './transpose.js';
+
+export type SongSelectImportOptions = LyricsImportOptions;
+
+/** "CCLI Song # 22025", the first line of the footer */
+const FOOTER_PATTERN = /^CCLI\s+Song\s*(?:#|No\.?|Number)?\s*:?\s*(\d+)/i;
+
+/** Footer lines after the copyright */
+const TERMS_PATTERN = /^(?:For use solely|CCLI Licen[cs]e|All rights reserved|www\.ccli\.com)/i;
+
+/**
+ * SongSelect section headings: bare section names ("Chorus", "Verse 2"),
+ * which lyric sheets only take as headings when marked, and ones that aren't
+ * a section type of their own
+ */
+const SONGSELECT_HEADINGS = [
+  new RegExp(`^((?:${Object.values(SECTION_WORDS).flat().join('|')})(?:\\s+\\d+[a-z]?)?)$`, 'i'),
+  /^(Misc(?:ellaneous)?(?:\s+\d+)?)$/i,
+];
+
+function isUsr(source: string): boolean {
+  return /^\s*Type\s*=\s*SongSelect/im.test(source) || /^\[S\s+A?\d+\]/m.test(source);
+}
+
+/**
+ * Check whether a file is a SongSelect download, either `.usr` or `.txt`
+ */
+export function isSongSelect(source: string): boolean {
+  return isUsr(source) || source.split(/\r\n?|\n/).some(line => FOOTER_PATTERN.test(line.trim()));
+}
+
+/**
+ * Authors as "Chris Tomlin, John Newton": SongSelect separates them with
+ * " | ", and `.usr` files write them "Newton, John"
+ */
+function formatAuthors(value: string, surnameFirst: boolean): string | undefined {
+  const authors = value.split('|').map(author => author.trim()).filter(Boolean).map(author => {
+    const name = surnameFirst ? /^([^,]+),\s*([^,]+)$/.exec(author) : null;
+    return name ? `${name[2]} ${name[1]}` : author;
+  });
+  return authors.length > 0 ? authors.join(', ') : undefined;
+}
+
+/**
+ * Year and publisher from copyright lines; publishers after the first are
+ * kept, separated by " | "
+ */
+function parseCopyrightLines(lines: string[]): { year?: number; publisher?: string } {
+  const [first = '', ...others] = lines.flatMap(line => line.split('|')).map(line => line.trim()).filter(Boolean);
+  const copyright = parseCopyright(first);
+  const publishers = [copyright.publisher, ...others].filter(Boolean);
+  return { year: copyright.year, publisher: publishers.length > 0 ? publishers.join(' | ') : undefined };
+}
+
+// ============================================================================
+// Lyrics (.txt)
+// ============================================================================
+
+function parseSongSelectText(source: string, options: SongSelectImportOptions): CreatePresentationOptions {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const headingPatterns = [...(options.headingPatterns || []), ...SONGSELECT_HEADINGS];
+
+  // The title is the first line, unless the download starts with a heading
+  const first = lines.findIndex(line => line.trim());
+  const hasTitle = first >= 0 && !parseSectionHeading(lines[first], headingPatterns);
+  const title = hasTitle ? lines[first].trim() : undefined;
+
+  let footer = lines.findIndex(line => FOOTER_PATTERN.test(line.trim()));
+  if (footer < 0) footer = lines.length;
+
+  const song = parseLyrics(lines.slice(hasTitle ? first + 1 : 0, footer).join('\n'), { ...options, headingPatterns });
+
+  // Footer: song number, authors, copyright lines, then the terms of use
+  const footerLines = lines.slice(footer + 1).map(line => line.trim()).filter(Boolean);
+  const terms = footerLines.findIndex(line => TERMS_PATTERN.test(line));
+  const [authors = '', ...copyrightLines] = footerLines.slice(0, terms < 0 ? undefined : terms);
+  const copyright = parseCopyrightLines(copyrightLines);
+  const ccliNumber = footer < lines.length ? parseInt(FOOTER_PATTERN.exec(lines[footer].trim())![1], 10) : undefined;
+
+  return {
+    ...song,
+    title: title || options.title || 'Untitled',
+    ccliNumber,
+    ccliAuthor: formatAuthors(authors, false),
+    copyrightYear: copyright.year,
+    publisher: copyright.publisher,
+  };
+}
+
+// ============================================================================
+// SongSelect file (.usr)
+// ============================================================================
+
+function parseSongSelectUsr(source: string, options: SongSelectImportOptions): CreatePresentationOptions {
+  const values: Record<string, string> = {};
+  let songNumber = '';
+
+  for (const line of source.replace(/\r\n?/g, '\n').split('\n')) {
+    const section = /^\[S\s+A?(\d+)\]$/i.exec(line.trim());
+    if (section) songNumber = section[1];
+    const value = /^(\w+)\s*=(.*)$/.exec(line);
+    if (value) values[value[1].toLowerCase()] = value[2].trim();
+  }
+
+  // Fields and their words are separated by "/t", lines by "/n"
+  const fields = (values.fields || '').split('/t');
+  const words = (values.words || '').split('/t');
+
+  const sections: SectionInput[] = [];
+  words.forEach((text, index) => {
+    const name = fields[index]?.trim() || `Verse ${index + 1}`;
+    const slides = splitSlides(text.split('/n').map(line => ({ text: line.trimEnd() })), options);
+    if (slides.length > 0) sections.push({ name, slides, color: getSectionColor(name) });
+  });
+
+  const copyright = parseCopyrightLines([values.copyright || '']);
+  const ccliNumber = parseInt(songNumber, 10);
+  const key = (values.keys || '').split(/[\s,/]+/)[0];
+
+  return {
+    title: values.title || options.title || 'Untitled',
+    ccliNumber: Number.isNaN(ccliNumber) ? undefined : ccliNumber,
+    ccliAuthor: formatAuthors(values.author || '', true),
+    copyrightYear: copyright.year,
+    publisher: copyright.publisher,
+    musicKey: parseMusicKey(key) || undefined,
+    sections,
+  };
+}
+
+/**
+ * Parse a SongSelect download, `.txt` lyrics or a `.usr` file, into options
+ * for `createPresentation`
+ *
+ * @example
+ * ```typescript
+ * const source = await fs.readFile('Amazing Grace.txt', 'utf8');
+ * const song = parseSongSelect(source);
+ * // song.ccliNumber === 4768151, song.ccliAuthor === 'Chris Tomlin, John Newton, Louie Giglio'
+ * const presentation = createPresentation(song);
+ * ```
+ */
+export function parseSongSelect(source: string, options: SongSelectImportOptions = {}): CreatePresentationOptions {
+  const text = source.replace(/^\uFEFF/, '');
+  return isUsr(text) ? parseSongSelectUsr(text, options) : parseSongSelectText(text, options);
+}
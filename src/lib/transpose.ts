@@ -0,0 +1,213 @@
+/**
+ * Chord transposition
+ *
+ * Moves every chord of a presentation to a new key and records the new key
+ * as the presentation's user key, the way ProPresenter's key picker does.
+ */
+
+import { getCues, getCueSlide, getSlideElements, type Presentation } from './index.js';
+import { MusicKey, MusicScale, type MusicKeyConfig } from './create.js';
+
+export interface TransposeOptions {
+  /** Key the chords are in now (default: the presentation's current key) */
+  fromKey?: string;
+}
+
+export interface TransposeResult {
+  fromKey: string;
+  toKey: string;
+  /** Semitones moved up (0-11) */
+  semitones: number;
+  /** Number of chords rewritten */
+  chordsChanged: number;
+}
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const LETTER_PITCHES = [0, 2, 4, 5, 7, 9, 11];
+
+const SHARP_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const FLAT_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+/** Pitches of the major keys written with flats: F, Bb, Eb, Ab, Db, Gb */
+const FLAT_MAJOR_KEYS = new Set([5, 10, 3, 8, 1, 6]);
+
+/**
+ * Scale degree (0-6) and name of each semitone above the tonic, as chords
+ * are usually spelled in a key (b3, #4, b7, ...)
+ */
+const DEGREES_BY_INTERVAL = [0, 1, 1, 2, 2, 3, 3, 4, 5, 5, 6, 6];
+
+const NOTE_PATTERN = /^([A-G])([#♯]|[b♭])?/;
+
+/**
+ * Pitch class (0-11) of a note name such as 'C', 'F#' or 'Bb'
+ */
+export function notePitch(note: string): number | null {
+  const match = NOTE_PATTERN.exec(note.trim());
+  if (!match) return null;
+  let pitch = LETTER_PITCHES[LETTERS.indexOf(match[1])];
+  if (match[2] === '#' || match[2] === '♯') pitch++;
+  if (match[2] === 'b' || match[2] === '♭') pitch--;
+  return (pitch + 12) % 12;
+}
+
+/**
+ * Split a key name like 'F#m' or 'Bb' into its tonic and scale
+ */
+export function parseKey(key: string): { tonic: string; pitch: number; minor: boolean } | null {
+  const match = /^([A-G](?:[#♯]|[b♭])?)\s*(m|min|minor)?$/i.exec(key.trim());
+  if (!match) return null;
+  const tonic = match[1].charAt(0).toUpperCase() + match[1].slice(1).replace('♯', '#').replace('♭', 'b');
+  const pitch = notePitch(tonic);
+  return pitch === null ? null : { tonic, pitch, minor: !!match[2] };
+}
+
+/**
+ * Whether a key is written with flats
+ */
+function prefersFlats(key: { tonic: string; pitch: number; minor: boolean }): boolean {
+  if (key.tonic.endsWith('b')) return true;
+  if (key.tonic.endsWith('#')) return false;
+  // Minor keys share the signature of their relative major
+  return FLAT_MAJOR_KEYS.has(key.minor ? (key.pitch + 3) % 12 : key.pitch);
+}
+
+/**
+ * Name a pitch class as it would be written in a key
+ */
+export function spellNote(pitch: number, key: string): string {
+  const parsed = parseKey(key);
+  if (!parsed) return SHARP_NAMES[((pitch % 12) + 12) % 12];
+
+  const interval = (((pitch - parsed.pitch) % 12) + 12) % 12;
+  const letterIndex = (LETTERS.indexOf(parsed.tonic.charAt(0)) + DEGREES_BY_INTERVAL[interval]) % 7;
+  const letter = LETTERS[letterIndex];
+  const offset = ((pitch - LETTER_PITCHES[letterIndex] + 18) % 12) - 6;
+
+  // Spell by scale degree when that gives a plain note, a sharp or a flat;
+  // otherwise (E#, Cb, double accidentals) use the key's usual accidental
+  const spelled = offset === 0 ? letter : offset === 1 ? `${letter}#` : offset === -1 ? `${letter}b` : null;
+  if (spelled && !['E#', 'B#', 'Cb', 'Fb'].includes(spelled)) return spelled;
+  const names = prefersFlats(parsed) ? FLAT_NAMES : SHARP_NAMES;
+  return names[((pitch % 12) + 12) % 12];
+}
+
+/**
+ * Transpose a chord name, including slash chords (`F#m7b5/C#`). Chords that
+ * don't start with a note name are returned unchanged.
+ *
+ * @param key Target key, used to choose sharps or flats
+ */
+export function transposeChord(chord: string, semitones: number, key?: string): string {
+  const match = /^([A-G](?:[#♯]|[b♭])?)(.*?)(?:\/([A-G](?:[#♯]|[b♭])?))?$/.exec(chord.trim());
+  if (!match) return chord;
+
+  const move = (note: string) => {
+    const pitch = (notePitch(note)! + semitones) % 12;
+    return key ? spellNote(pitch, key) : SHARP_NAMES[(pitch + 12) % 12];
+  };
+
+  const [, root, quality, bass] = match;
+  return `${move(root)}${quality}${bass ? `/${move(bass)}` : ''}`;
+}
+
+/**
+ * Convert a key name to ProPresenter's MusicKey value
+ */
+function musicKeyValue(tonic: string): MusicKey {
+  const name = tonic.charAt(0) + (tonic.endsWith('#') ? '_SHARP' : tonic.endsWith('b') ? '_FLAT' : '');
+  return MusicKey[name as keyof typeof MusicKey];
+}
+
+type MusicKeyScale = NonNullable<NonNullable<Presentation['music']>['user']>;
+
+/**
+ * A key and scale as the presentation stores them. The local MusicKey and
+ * MusicScale enums mirror the schema's values, as in create.ts.
+ */
+function musicKeyScale(tonic: string, scale: MusicScale): MusicKeyScale {
+  return { musicKey: musicKeyValue(tonic) as number, musicScale: scale as number };
+}
+
+/**
+ * Convert a key name like 'Bb' or 'F#m' to the key settings `createPresentation`
+ * takes
+ */
+export function parseMusicKey(key: string): MusicKeyConfig | null {
+  const parsed = parseKey(key);
+  if (!parsed) return null;
+  return { key: musicKeyValue(parsed.tonic), scale: parsed.minor ? MusicScale.MINOR : MusicScale.MAJOR };
+}
+
+/**
+ * Name of a ProPresenter MusicKey value, e.g. MusicKey.B_FLAT → 'Bb'
+ */
+function musicKeyName(value: number | undefined | null): string | null {
+  const name = value === undefined || value === null ? undefined : MusicKey[value];
+  if (!name) return null;
+  return name.charAt(0) + (name.endsWith('_SHARP') ? '#' : name.endsWith('_FLAT') ? 'b' : '');
+}
+
+/**
+ * Get a presentation's current key as a name like 'G' or 'Em'
+ */
+export function getPresentationKey(presentation: Presentation): string | null {
+  const music = presentation.music;
+  const scale = music?.user || music?.original;
+  // An unset key in a scale is the enum's zero value, A flat
+  const key = music?.userMusicKey || music?.originalMusicKey || presentation.musicKey ||
+    (scale && musicKeyName(scale.musicKey || MusicKey.A_FLAT));
+  if (!key) return null;
+
+  // The key names leave the scale to `musicScale`
+  const minor = scale?.musicScale === MusicScale.MINOR;
+  return minor && !/m$/.test(key) ? `${key}m` : key;
+}
+
+/**
+ * Transpose every chord of a presentation to a new key and make that key the
+ * presentation's user key
+ *
+ * @example
+ * ```typescript
+ * transposePresentation(presentation, 'Bb');
+ * await writePresentation('song.pro', presentation);
+ * ```
+ */
+export function transposePresentation(presentation: Presentation, toKey: string, options: TransposeOptions = {}): TransposeResult {
+  const fromKey = options.fromKey || getPresentationKey(presentation);
+  if (!fromKey) throw new Error('Presentation has no key; pass the current key with fromKey');
+
+  const from = parseKey(fromKey);
+  if (!from) throw new Error(`Invalid key: ${fromKey}`);
+  const to = parseKey(toKey);
+  if (!to) throw new Error(`Invalid key: ${toKey}`);
+
+  // The song keeps its scale; "E" for a song in C#m means Em
+  const minor = from.minor;
+  const targetKey = to.tonic + (minor ? 'm' : '');
+  const semitones = (to.pitch - from.pitch + 12) % 12;
+
+  let chordsChanged = 0;
+  for (const cue of getCues(presentation)) {
+    const slide = getCueSlide(cue);
+    if (!slide) continue;
+    for (const element of getSlideElements(slide)) {
+      for (const attribute of element.element?.text?.attributes?.customAttributes || []) {
+        if (!attribute.chord) continue;
+        const chord = transposeChord(attribute.chord, semitones, targetKey);
+        if (chord !== attribute.chord) {
+          attribute.chord = chord;
+          chordsChanged++;
+        }
+      }
+    }
+  }
+
+  const scale = minor ? MusicScale.MINOR : MusicScale.MAJOR;
+  presentation.music ||= { originalMusicKey: from.tonic, original: musicKeyScale(from.tonic, scale) };
+  presentation.music.userMusicKey = to.tonic;
+  presentation.music.user = musicKeyScale(to.tonic, scale);
+
+  return { fromKey, toKey: targetKey, semitones, chordsChanged };
+}
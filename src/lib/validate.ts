@@ -0,0 +1,147 @@
+/**
+ * Round-trip validation
+ *
+ * Checks that a file survives the library's own read → write path: decode,
+ * re-encode, decode again, and compare both the data and the bytes.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getMessageType, resolveProtoVersion, decodeMessage, encodeMessage, type CodecOptions } from './index.js';
+import { findUnknownFields, type UnknownField } from './wire.js';
+import { readPlaylistBundle } from './playlist.js';
+
+export interface FieldDifference {
+  /** Path of the field, e.g. `cues[3].actions[0].name` */
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RoundTripReport {
+  file?: string;
+  messageType: string;
+  protoVersion: string;
+  /** Error from `Type.verify` on the decoded object, if any */
+  verifyError: string | null;
+  originalSize: number;
+  encodedSize: number;
+  /** Whether the re-encoded bytes match the original exactly */
+  bytesIdentical: boolean;
+  /** Fields whose decoded value changed across the round trip */
+  differences: FieldDifference[];
+  /** Fields not described by the schema, found in the original bytes */
+  unknownFields: UnknownField[];
+  /** Unknown fields that are missing from the re-encoded bytes */
+  unknownFieldsLost: UnknownField[];
+  /** True when no data and no unknown fields were lost */
+  lossless: boolean;
+}
+
+/**
+ * Pick the message type for a file from its extension
+ */
+export function messageTypeForFile(filePath: string): string {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.proplaylist':
+      return 'rv.data.PlaylistDocument';
+    case '.proworkspace':
+      return 'rv.data.ProPresenterWorkspace';
+    default:
+      return 'rv.data.Presentation';
+  }
+}
+
+function isBytes(value: unknown): value is Uint8Array {
+  return value instanceof Uint8Array;
+}
+
+/**
+ * Compare two decoded objects field by field
+ */
+function diffValues(before: unknown, after: unknown, path: string, out: FieldDifference[]): void {
+  if (isBytes(before) || isBytes(after)) {
+    if (!isBytes(before) || !isBytes(after) || Buffer.compare(before, after) !== 0) {
+      out.push({ path, before, after });
+    }
+    return;
+  }
+
+  if (Array.isArray(before) || Array.isArray(after)) {
+    if (!Array.isArray(before) || !Array.isArray(after)) {
+      out.push({ path, before, after });
+      return;
+    }
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      diffValues(before[i], after[i], `${path}[${i}]`, out);
+    }
+    return;
+  }
+
+  if (before && after && typeof before === 'object' && typeof after === 'object') {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      diffValues((before as any)[key], (after as any)[key], path ? `${path}.${key}` : key, out);
+    }
+    return;
+  }
+
+  if (before !== after) {
+    out.push({ path, before, after });
+  }
+}
+
+function unknownFieldKey(field: UnknownField): string {
+  return `${field.path}#${field.fieldNumber}:${Buffer.from(field.bytes).toString('base64')}`;
+}
+
+/**
+ * Decode, re-encode and decode a message again, reporting anything lost
+ */
+export async function checkRoundTrip(
+  buffer: Uint8Array,
+  messageType = 'rv.data.Presentation',
+  options: CodecOptions = {}
+): Promise<RoundTripReport> {
+  const protoVersion = resolveProtoVersion(options.protoVersion, buffer);
+  options = { ...options, protoVersion };
+  const MessageType = await getMessageType(messageType, options.protoVersion);
+
+  const decoded = await decodeMessage(messageType, buffer, options);
+  const verifyError = MessageType.verify(decoded);
+  const encoded = await encodeMessage(messageType, decoded, options);
+  const redecoded = await decodeMessage(messageType, encoded, options);
+
+  const differences: FieldDifference[] = [];
+  diffValues(decoded, redecoded, '', differences);
+
+  const unknownFields = findUnknownFields(MessageType, buffer);
+  const kept = new Set(findUnknownFields(MessageType, encoded).map(unknownFieldKey));
+  const unknownFieldsLost = unknownFields.filter(f => !kept.has(unknownFieldKey(f)));
+
+  return {
+    messageType,
+    protoVersion,
+    verifyError: verifyError || null,
+    originalSize: buffer.length,
+    encodedSize: encoded.length,
+    bytesIdentical: Buffer.compare(Buffer.from(buffer), Buffer.from(encoded)) === 0,
+    differences,
+    unknownFields,
+    unknownFieldsLost,
+    lossless: differences.length === 0 && unknownFieldsLost.length === 0,
+  };
+}
+
+/**
+ * Run a round-trip check on a file
+ */
+export async function validateFile(filePath: string, options: CodecOptions = {}): Promise<RoundTripReport> {
+  const messageType = messageTypeForFile(filePath);
+  let buffer: Uint8Array = await fs.readFile(filePath);
+  if (messageType === 'rv.data.PlaylistDocument') {
+    buffer = readPlaylistBundle(buffer).data;
+  }
+  const report = await checkRoundTrip(buffer, messageType, options);
+  return { file: filePath, ...report };
+}
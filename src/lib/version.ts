@@ -0,0 +1,164 @@
+/**
+ * ProPresenter version detection
+ *
+ * Every document starts with an `ApplicationInfo` header (field 1) naming the
+ * platform and the ProPresenter build that wrote it. The header's layout is
+ * the same in every schema version, so it is read straight from the wire
+ * before choosing which schema to decode the rest of the file with.
+ */
+
+import protobuf from 'protobufjs';
+import * as fs from 'fs/promises';
+import { readWireFields } from './wire.js';
+
+export interface AppVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  build: string;
+}
+
+export interface FileVersionInfo {
+  platform: 'macOS' | 'Windows' | 'unknown';
+  application: string;
+  /** Version of ProPresenter that wrote the file, if recorded */
+  version: AppVersion | null;
+  /** Human-readable version, e.g. '7.16.2' */
+  versionString: string;
+  /** Bundled schema version best suited to decode the file */
+  protoVersion: string;
+  /** True when the file is newer than every bundled schema */
+  newerThanSchema: boolean;
+}
+
+/**
+ * Bundled schemas and the newest ProPresenter version each one describes,
+ * oldest first
+ */
+const SCHEMA_COVERAGE: { protoVersion: string; upTo: [number, number, number] }[] = [
+  { protoVersion: '7.16', upTo: [7, 16, 1] },
+  { protoVersion: '7.16.2', upTo: [7, 16, Infinity] },
+  { protoVersion: '19beta', upTo: [19, Infinity, Infinity] },
+];
+
+/** Newest bundled schema */
+export const LATEST_PROTO_VERSION = SCHEMA_COVERAGE[SCHEMA_COVERAGE.length - 1].protoVersion;
+
+const PLATFORMS: Record<number, FileVersionInfo['platform']> = {
+  1: 'macOS',
+  2: 'Windows',
+};
+
+const APPLICATIONS: Record<number, string> = {
+  1: 'ProPresenter',
+  2: 'Pro Video Player',
+  3: 'ProVideoServer',
+};
+
+function compareVersions(a: [number, number, number], b: [number, number, number]): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) return a[i] < b[i] ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Read an `rv.data.Version` message from the wire
+ */
+function readVersion(bytes: Uint8Array): AppVersion {
+  const version: AppVersion = { major: 0, minor: 0, patch: 0, build: '' };
+  const reader = protobuf.Reader.create(bytes);
+
+  while (reader.pos < reader.len) {
+    const tag = reader.uint32();
+    switch (tag >>> 3) {
+      case 1: version.major = reader.uint32(); break;
+      case 2: version.minor = reader.uint32(); break;
+      case 3: version.patch = reader.uint32(); break;
+      case 4: version.build = reader.string(); break;
+      default: reader.skipType(tag & 7);
+    }
+  }
+
+  return version;
+}
+
+/**
+ * Format a version as 'X.Y' or 'X.Y.Z'
+ */
+export function formatAppVersion(version: AppVersion): string {
+  const parts = [version.major, version.minor];
+  if (version.patch) parts.push(version.patch);
+  return parts.join('.');
+}
+
+/**
+ * Pick the bundled schema for a ProPresenter version
+ */
+export function protoVersionFor(version: AppVersion | null): { protoVersion: string; newerThanSchema: boolean } {
+  if (!version || version.major === 0) {
+    return { protoVersion: LATEST_PROTO_VERSION, newerThanSchema: false };
+  }
+
+  const target: [number, number, number] = [version.major, version.minor, version.patch];
+  for (const schema of SCHEMA_COVERAGE) {
+    if (compareVersions(target, schema.upTo) <= 0) {
+      return { protoVersion: schema.protoVersion, newerThanSchema: false };
+    }
+  }
+  return { protoVersion: LATEST_PROTO_VERSION, newerThanSchema: true };
+}
+
+/**
+ * Inspect a document's `applicationInfo` header and pick a schema for it
+ */
+export function detectFileVersion(buffer: Uint8Array): FileVersionInfo {
+  let platform: FileVersionInfo['platform'] = 'unknown';
+  let application = 'ProPresenter';
+  let version: AppVersion | null = null;
+
+  let header: ReturnType<typeof readWireFields>[number] | undefined;
+  try {
+    header = readWireFields(buffer).find(f => f.fieldNumber === 1 && f.wireType === 2);
+  } catch {
+    // Not a protobuf document; fall through to the defaults
+  }
+
+  if (header?.dataStart !== undefined) {
+    const info = buffer.subarray(header.dataStart, header.end);
+    const reader = protobuf.Reader.create(info);
+    while (reader.pos < reader.len) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1: platform = PLATFORMS[reader.uint32()] || 'unknown'; break;
+        case 3: application = APPLICATIONS[reader.uint32()] || application; break;
+        case 4: version = readVersion(reader.bytes()); break;
+        default: reader.skipType(tag & 7);
+      }
+    }
+  }
+
+  return {
+    platform,
+    application,
+    version,
+    versionString: version ? formatAppVersion(version) : 'unknown',
+    ...protoVersionFor(version),
+  };
+}
+
+/**
+ * Read a file's `applicationInfo` header
+ */
+export async function readFileVersion(filePath: string): Promise<FileVersionInfo> {
+  return detectFileVersion(await fs.readFile(filePath));
+}
+
+/**
+ * Describe where a file came from, e.g. "Created with ProPresenter 7.16 (macOS)"
+ */
+export function formatFileVersion(info: FileVersionInfo): string {
+  const platform = info.platform !== 'unknown' ? ` (${info.platform})` : '';
+  if (!info.version) return `Created with ${info.application}${platform}`;
+  return `Created with ${info.application} ${info.versionString}${platform}`;
+}
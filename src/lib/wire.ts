@@ -0,0 +1,294 @@
+/**
+ * Protobuf wire-format inspection
+ *
+ * protobufjs drops fields that aren't in the loaded schema while decoding.
+ * These helpers walk the raw bytes next to the schema so those fields can be
+ * found (and, for writing, kept).
+ */
+
+import protobuf from 'protobufjs';
+
+/**
+ * A field as it appears on the wire
+ */
+export interface WireField {
+  fieldNumber: number;
+  wireType: number;
+  /** Offset of the tag */
+  start: number;
+  /** Offset just past the value */
+  end: number;
+  /** Offset of the payload of a length-delimited field */
+  dataStart?: number;
+}
+
+/**
+ * A wire field that the schema doesn't describe
+ */
+export interface UnknownField {
+  /** Path of the containing message, e.g. `cues[2].actions[0]` */
+  path: string;
+  fieldNumber: number;
+  wireType: number;
+  /** Tag and value bytes, exactly as read */
+  bytes: Uint8Array;
+}
+
+/**
+ * Split an encoded message into its top-level wire fields
+ */
+export function readWireFields(bytes: Uint8Array): WireField[] {
+  const reader = protobuf.Reader.create(bytes);
+  const fields: WireField[] = [];
+
+  while (reader.pos < reader.len) {
+    const start = reader.pos;
+    const tag = reader.uint32();
+    const wireType = tag & 7;
+    let dataStart: number | undefined;
+
+    if (wireType === 2) {
+      const length = reader.uint32();
+      dataStart = reader.pos;
+      reader.skip(length);
+    } else {
+      reader.skipType(wireType);
+    }
+
+    fields.push({ fieldNumber: tag >>> 3, wireType, start, end: reader.pos, dataStart });
+  }
+
+  return fields;
+}
+
+/**
+ * Resolve the message type of a field, if it has one
+ */
+export function fieldMessageType(field: protobuf.Field): protobuf.Type | null {
+  if (field instanceof protobuf.MapField) return null;
+  field.resolve();
+  return field.resolvedType instanceof protobuf.Type ? field.resolvedType : null;
+}
+
+/**
+ * Resolve the value type of a map field whose values are messages
+ */
+function mapValueType(field: protobuf.MapField): protobuf.Type | null {
+  field.resolve();
+  return field.resolvedType instanceof protobuf.Type ? field.resolvedType : null;
+}
+
+/**
+ * Split an encoded map entry into its key, as used on decoded objects, and
+ * its value field (key = 1, value = 2)
+ */
+function readMapEntry(field: protobuf.MapField, bytes: Uint8Array): { key: string; value: WireField | null } {
+  // An entry leaves out a key that has the default value
+  let key = field.keyType === 'string' ? '' : field.keyType === 'bool' ? 'false' : '0';
+  let value: WireField | null = null;
+
+  for (const wire of readWireFields(bytes)) {
+    if (wire.fieldNumber === 1) {
+      const reader = protobuf.Reader.create(bytes.subarray(wire.start, wire.end));
+      reader.uint32();
+      const read = (reader as unknown as Record<string, () => unknown>)[field.keyType].call(reader);
+      key = typeof read === 'object' && read !== null ? protobuf.util.longToHash(read as protobuf.Long) : String(read);
+    } else if (wire.fieldNumber === 2 && wire.wireType === 2) {
+      value = wire;
+    }
+  }
+
+  return { key, value };
+}
+
+/**
+ * Find every field in an encoded message (including nested messages) that
+ * the schema doesn't describe
+ */
+export function findUnknownFields(type: protobuf.Type, bytes: Uint8Array, path = ''): UnknownField[] {
+  const unknown: UnknownField[] = [];
+  const counts = new Map<number, number>();
+
+  for (const wire of readWireFields(bytes)) {
+    const field = type.fieldsById[wire.fieldNumber];
+
+    if (!field) {
+      unknown.push({
+        path,
+        fieldNumber: wire.fieldNumber,
+        wireType: wire.wireType,
+        bytes: bytes.subarray(wire.start, wire.end),
+      });
+      continue;
+    }
+
+    if (wire.wireType !== 2 || wire.dataStart === undefined) continue;
+    const name = path ? `${path}.${field.name}` : field.name;
+    const childType = fieldMessageType(field);
+    const valueType = field instanceof protobuf.MapField ? mapValueType(field) : null;
+
+    if (childType) {
+      const index = counts.get(wire.fieldNumber) || 0;
+      counts.set(wire.fieldNumber, index + 1);
+      const childPath = field.repeated ? `${name}[${index}]` : name;
+      unknown.push(...findUnknownFields(childType, bytes.subarray(wire.dataStart, wire.end), childPath));
+    } else if (valueType && field instanceof protobuf.MapField) {
+      const entry = bytes.subarray(wire.dataStart, wire.end);
+      const { key, value } = readMapEntry(field, entry);
+      if (value?.dataStart !== undefined) {
+        unknown.push(...findUnknownFields(valueType, entry.subarray(value.dataStart, value.end), `${name}[${key}]`));
+      }
+    }
+  }
+
+  return unknown;
+}
+
+// ============================================================================
+// Unknown Field Preservation
+// ============================================================================
+
+/**
+ * Property on decoded objects that holds the raw bytes of unknown fields
+ */
+export const UNKNOWN_FIELDS_KEY = '$unknownFields';
+
+/**
+ * A nested message found while walking an encoded message: a message field,
+ * or the value of a map entry
+ */
+interface ChildMessage {
+  type: protobuf.Type;
+  /** The decoded object it was decoded to */
+  object: any;
+  /** Its encoding */
+  bytes: Uint8Array;
+  /** Encode the wire field again around a new encoding of the message */
+  wrap(encoded: Uint8Array): Uint8Array;
+}
+
+/**
+ * Find the decoded object for one occurrence of a message field
+ */
+function childObject(object: any, field: protobuf.Field, index: number): any {
+  const value = object?.[field.name];
+  const child = field.repeated ? value?.[index] : value;
+  return child && typeof child === 'object' ? child : null;
+}
+
+/**
+ * Find the nested message carried by a wire field, if the decoded object has it
+ */
+function childMessage(object: any, field: protobuf.Field, wire: WireField, bytes: Uint8Array, index: number): ChildMessage | null {
+  if (wire.wireType !== 2 || wire.dataStart === undefined) return null;
+  const payload = bytes.subarray(wire.dataStart, wire.end);
+
+  const childType = fieldMessageType(field);
+  if (childType) {
+    const child = childObject(object, field, index);
+    if (!child) return null;
+    return { type: childType, object: child, bytes: payload, wrap: encoded => lengthDelimited(wire.fieldNumber, encoded) };
+  }
+
+  if (!(field instanceof protobuf.MapField)) return null;
+  const valueType = mapValueType(field);
+  if (!valueType) return null;
+  const { key, value } = readMapEntry(field, payload);
+  const child = object?.[field.name]?.[key];
+  if (!value || value.dataStart === undefined || !child || typeof child !== 'object') return null;
+  return {
+    type: valueType,
+    object: child,
+    bytes: payload.subarray(value.dataStart, value.end),
+    wrap: encoded => lengthDelimited(wire.fieldNumber, Buffer.concat([
+      payload.subarray(0, value.start),
+      lengthDelimited(2, encoded),
+      payload.subarray(value.end),
+    ])),
+  };
+}
+
+/**
+ * Walk the fields of an encoded message alongside its decoded object
+ */
+function forEachChild(
+  type: protobuf.Type,
+  object: any,
+  bytes: Uint8Array,
+  visit: (wire: WireField, field: protobuf.Field | null, child: ChildMessage | null) => void
+): void {
+  const counts = new Map<number, number>();
+
+  for (const wire of readWireFields(bytes)) {
+    const field = type.fieldsById[wire.fieldNumber] || null;
+    let child: ChildMessage | null = null;
+
+    if (field) {
+      const index = counts.get(wire.fieldNumber) || 0;
+      counts.set(wire.fieldNumber, index + 1);
+      child = childMessage(object, field, wire, bytes, index);
+    }
+
+    visit(wire, field, child);
+  }
+}
+
+/**
+ * Copy the raw bytes of every unknown field in an encoded message onto its
+ * decoded object (and nested objects), so they can be written back later
+ */
+export function attachUnknownFields(type: protobuf.Type, object: any, bytes: Uint8Array): void {
+  forEachChild(type, object, bytes, (wire, field, child) => {
+    if (!field) {
+      if (!object[UNKNOWN_FIELDS_KEY]) object[UNKNOWN_FIELDS_KEY] = [];
+      object[UNKNOWN_FIELDS_KEY].push(Buffer.from(bytes.subarray(wire.start, wire.end)));
+    } else if (child) {
+      attachUnknownFields(child.type, child.object, child.bytes);
+    }
+  });
+}
+
+/**
+ * Check whether an object tree carries any unknown fields
+ */
+export function hasUnknownFields(object: any): boolean {
+  if (!object || typeof object !== 'object' || object instanceof Uint8Array) return false;
+  if (Array.isArray(object)) return object.some(hasUnknownFields);
+  if (object[UNKNOWN_FIELDS_KEY]?.length) return true;
+  return Object.values(object).some(hasUnknownFields);
+}
+
+function encodeVarint(value: number): Uint8Array {
+  const out: number[] = [];
+  while (value > 0x7f) {
+    out.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  out.push(value);
+  return Uint8Array.from(out);
+}
+
+function lengthDelimited(fieldNumber: number, payload: Uint8Array): Uint8Array {
+  return Buffer.concat([encodeVarint(((fieldNumber << 3) | 2) >>> 0), encodeVarint(payload.length), payload]);
+}
+
+/**
+ * Add the unknown fields stored on an object tree back into its encoding
+ */
+export function injectUnknownFields(type: protobuf.Type, object: any, bytes: Uint8Array): Uint8Array {
+  const chunks: Uint8Array[] = [];
+
+  forEachChild(type, object, bytes, (wire, _field, child) => {
+    if (child && hasUnknownFields(child.object)) {
+      chunks.push(child.wrap(injectUnknownFields(child.type, child.object, child.bytes)));
+    } else {
+      chunks.push(bytes.subarray(wire.start, wire.end));
+    }
+  });
+
+  for (const raw of object?.[UNKNOWN_FIELDS_KEY] || []) {
+    chunks.push(raw);
+  }
+
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,222 @@
+/**
+ * Workspaces (.proworkspace files)
+ *
+ * A workspace holds a machine's output setup: screens, audience looks, masks,
+ * stage layouts and the like, as an `rv.data.ProPresenterWorkspace`.
+ */
+
+import * as fs from 'fs/promises';
+import protobuf from 'protobufjs';
+import type { rv } from '../generated/types.js';
+import {
+  decodeMessage,
+  encodeMessage,
+  getMessageType,
+  getDecodedProtoVersion,
+  resolveProtoVersion,
+  type CodecOptions,
+} from './index.js';
+import { fieldMessageType } from './wire.js';
+
+export type Workspace = rv.data.ProPresenterWorkspace;
+export type WorkspaceScreen = rv.data.ProPresenterScreen;
+export type AudienceLook = rv.data.ProAudienceLook;
+/** Props are cues whose action shows a prop slide */
+export type WorkspaceProp = rv.data.Cue;
+export type WorkspaceMessage = rv.data.Message;
+export type StageLayout = rv.data.Stage.Layout;
+
+export const WORKSPACE_MESSAGE_TYPE = 'rv.data.ProPresenterWorkspace';
+
+/**
+ * One configured item of a workspace, e.g. a screen or a look
+ */
+export interface WorkspaceEntry {
+  name: string;
+  uuid?: string;
+  /** Top-level settings of the entry (enums by name, strings, numbers, flags) */
+  settings: Record<string, string | number | boolean>;
+}
+
+/**
+ * A top-level part of a workspace, e.g. its screens
+ */
+export interface WorkspaceSection {
+  /** Field name, e.g. `proScreens` */
+  field: string;
+  /** Readable name, e.g. `Pro Screens` */
+  label: string;
+  entries: WorkspaceEntry[];
+}
+
+// ============================================================================
+// Reading and Writing
+// ============================================================================
+
+/**
+ * Read a ProPresenter workspace file
+ */
+export async function readWorkspace(filePath: string, options: CodecOptions = {}): Promise<Workspace> {
+  const buffer = await fs.readFile(filePath);
+  return decodeMessage<Workspace>(WORKSPACE_MESSAGE_TYPE, buffer, options);
+}
+
+/**
+ * Write a ProPresenter workspace file
+ */
+export async function writeWorkspace(filePath: string, workspace: Workspace, options: CodecOptions = {}): Promise<void> {
+  const buffer = await encodeMessage(WORKSPACE_MESSAGE_TYPE, workspace, options);
+  await fs.writeFile(filePath, buffer);
+}
+
+// ============================================================================
+// Screens and Looks
+// ============================================================================
+
+/**
+ * Get the screens configured in a workspace
+ */
+export function getWorkspaceScreens(workspace: Workspace): WorkspaceScreen[] {
+  return workspace.proScreens || [];
+}
+
+/**
+ * Find a screen by name (case-insensitive) or UUID
+ */
+export function findWorkspaceScreen(workspace: Workspace, ref: string): WorkspaceScreen | null {
+  const wanted = ref.toLowerCase();
+  return getWorkspaceScreens(workspace).find(
+    s => (s.name || '').toLowerCase() === wanted || s.uuid?.string?.toLowerCase() === wanted
+  ) || null;
+}
+
+/**
+ * Get the saved audience looks of a workspace
+ */
+export function getWorkspaceLooks(workspace: Workspace): AudienceLook[] {
+  return workspace.audienceLooks || [];
+}
+
+/**
+ * Get the look currently live on the audience screens
+ */
+export function getLiveLook(workspace: Workspace): AudienceLook | null {
+  return workspace.liveAudienceLook || null;
+}
+
+// ============================================================================
+// Props, Messages and Stage Layouts
+// ============================================================================
+
+/**
+ * Collect every message of a schema type held in a workspace, however deeply
+ * it's nested (props, messages and stage layouts sit inside documents of
+ * their own)
+ */
+async function collectMessages<T>(workspace: Workspace, typeName: string, options: CodecOptions): Promise<T[]> {
+  const version = getDecodedProtoVersion(workspace) || resolveProtoVersion(options.protoVersion);
+  const WorkspaceType = await getMessageType(WORKSPACE_MESSAGE_TYPE, version);
+  const found: T[] = [];
+
+  const visit = (type: protobuf.Type, object: Record<string, unknown>) => {
+    for (const field of type.fieldsArray) {
+      const childType = fieldMessageType(field);
+      const value = object[field.name];
+      if (!childType || value === null || value === undefined) continue;
+
+      const values = (field.repeated ? value : [value]) as Record<string, unknown>[];
+      for (const child of values) {
+        if (childType.fullName === `.${typeName}`) {
+          found.push(child as T);
+        } else {
+          visit(childType, child);
+        }
+      }
+    }
+  };
+  visit(WorkspaceType, workspace as Record<string, unknown>);
+  return found;
+}
+
+/**
+ * Get the props of a workspace
+ */
+export async function getWorkspaceProps(workspace: Workspace, options: CodecOptions = {}): Promise<WorkspaceProp[]> {
+  const cues = await collectMessages<WorkspaceProp>(workspace, 'rv.data.Cue', options);
+  return cues.filter(cue => (cue.actions || []).some(action => action.slide?.prop));
+}
+
+/**
+ * Get the messages (announcements shown over the output) of a workspace
+ */
+export async function getWorkspaceMessages(workspace: Workspace, options: CodecOptions = {}): Promise<WorkspaceMessage[]> {
+  return collectMessages<WorkspaceMessage>(workspace, 'rv.data.Message', options);
+}
+
+/**
+ * Get the stage display layouts of a workspace
+ */
+export async function getWorkspaceStageLayouts(workspace: Workspace, options: CodecOptions = {}): Promise<StageLayout[]> {
+  return collectMessages<StageLayout>(workspace, 'rv.data.Stage.Layout', options);
+}
+
+// ============================================================================
+// Summary
+// ============================================================================
+
+function labelForField(field: string): string {
+  const words = field.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Describe one message of a workspace by its name and top-level settings
+ */
+function describeEntry(type: protobuf.Type | null, value: any): WorkspaceEntry {
+  const settings: WorkspaceEntry['settings'] = {};
+
+  for (const field of type?.fieldsArray || []) {
+    const setting = value?.[field.name];
+    if (field.repeated || field.name === 'name' || setting === null || setting === undefined) continue;
+
+    field.resolve();
+    if (field.resolvedType instanceof protobuf.Enum) {
+      settings[field.name] = field.resolvedType.valuesById[setting] ?? setting;
+    } else if (['string', 'bool', 'double', 'float', 'int32', 'uint32', 'sint32'].includes(field.type)) {
+      settings[field.name] = setting;
+    }
+  }
+
+  return {
+    name: value?.name || '',
+    uuid: value?.uuid?.string || undefined,
+    settings,
+  };
+}
+
+/**
+ * List every part of a workspace with the entries it holds, in schema order.
+ * Useful for auditing a setup or comparing two of them.
+ */
+export async function summarizeWorkspace(workspace: Workspace, options: CodecOptions = {}): Promise<WorkspaceSection[]> {
+  const version = getDecodedProtoVersion(workspace) || resolveProtoVersion(options.protoVersion);
+  const WorkspaceType = await getMessageType(WORKSPACE_MESSAGE_TYPE, version);
+  const sections: WorkspaceSection[] = [];
+
+  for (const field of WorkspaceType.fieldsArray) {
+    const childType = fieldMessageType(field);
+    const value = workspace[field.name as keyof Workspace];
+    if (!childType || field.name === 'applicationInfo' || value === null || value === undefined) continue;
+
+    const values = (field.repeated ? value : [value]) as unknown[];
+    if (values.length === 0) continue;
+
+    sections.push({
+      field: field.name,
+      label: labelForField(field.name),
+      entries: values.map(v => describeEntry(childType, v)),
+    });
+  }
+
+  return sections;
+}
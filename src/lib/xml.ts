@@ -0,0 +1,131 @@
+/**
+ * Minimal XML support
+ *
+ * Enough XML for song interchange formats like OpenLyrics: elements,
+ * attributes, text with entities, CDATA and mixed content. No DTDs or
+ * namespace resolution; prefixed names are kept as written.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+/** An element or a run of text */
+export type XmlNode = XmlElement | string;
+
+const TAG_PATTERN = /<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[name] ?? entity;
+  });
+}
+
+/**
+ * Escape text for use in XML content or attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Parse an XML document and return its root element
+ */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let position = 0;
+
+  const fail = (message: string): never => {
+    const line = source.slice(0, position).split('\n').length;
+    throw new Error(`Invalid XML at line ${line}: ${message}`);
+  };
+
+  while (position < source.length) {
+    const tagStart = source.indexOf('<', position);
+    const text = source.slice(position, tagStart < 0 ? undefined : tagStart);
+    if (text) stack[stack.length - 1].children.push(decodeEntities(text));
+    if (tagStart < 0) break;
+    position = tagStart;
+
+    if (source.startsWith('<!--', position)) {
+      const end = source.indexOf('-->', position);
+      if (end < 0) fail('unclosed comment');
+      position = end + 3;
+    } else if (source.startsWith('<![CDATA[', position)) {
+      const end = source.indexOf(']]>', position);
+      if (end < 0) fail('unclosed CDATA section');
+      stack[stack.length - 1].children.push(source.slice(position + 9, end));
+      position = end + 3;
+    } else if (source.startsWith('<?', position) || source.startsWith('<!', position)) {
+      // Declarations, processing instructions and doctypes
+      const end = source.indexOf('>', position);
+      if (end < 0) fail('unclosed declaration');
+      position = end + 1;
+    } else if (source.startsWith('</', position)) {
+      const end = source.indexOf('>', position);
+      if (end < 0) fail('unclosed tag');
+      const name = source.slice(position + 2, end).trim();
+      const element = stack.pop()!;
+      if (element.name !== name || stack.length === 0) fail(`unexpected </${name}>`);
+      position = end + 1;
+    } else {
+      TAG_PATTERN.lastIndex = position;
+      const tag = TAG_PATTERN.exec(source);
+      if (!tag) fail('malformed tag');
+      const [whole, name, attributeText, selfClosing] = tag!;
+
+      const attributes: Record<string, string> = {};
+      for (const attribute of attributeText.matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3]);
+      }
+
+      const element: XmlElement = { name, attributes, children: [] };
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) stack.push(element);
+      position += whole.length;
+    }
+  }
+
+  if (stack.length > 1) fail(`unclosed <${stack[stack.length - 1].name}>`);
+  const document = root.children.find((child): child is XmlElement => typeof child !== 'string');
+  if (!document) fail('no root element');
+  return document!;
+}
+
+/**
+ * Get the child elements of an element, optionally only those with a name
+ */
+export function getXmlChildren(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement => typeof child !== 'string' && (!name || child.name === name)
+  );
+}
+
+/**
+ * Get the first child element with a name
+ */
+export function getXmlChild(element: XmlElement, name: string): XmlElement | null {
+  return getXmlChildren(element, name)[0] || null;
+}
+
+/**
+ * Get all the text inside an element, trimmed
+ */
+export function getXmlText(element: XmlElement | null): string {
+  if (!element) return '';
+  const text = (node: XmlNode): string => (typeof node === 'string' ? node : node.children.map(text).join(''));
+  return text(element).trim();
+}
@@ -2,11 +2,124 @@
  * Test script for ProPresenter Protobuf library
  */
 
-import { loadProtoDefinitions } from './lib/index.js';
+import {
+  loadProtoDefinitions,
+  parseRtf,
+  serializeRtf,
+  getRtfText,
+  rtfToText,
+  textToRtf,
+  setRtfText,
+  setElementText,
+  findSlideElement,
+  updatePresentationText,
+  type GraphicsElement,
+  detectFileVersion,
+  formatFileVersion,
+  type Presentation,
+  createPlaylist,
+  getPlaylist,
+  listPlaylistItems,
+  movePlaylistItem,
+  removePlaylistItem,
+  readPlaylistBundle,
+  readZip,
+  writeZip,
+  createPresentation,
+  abbreviateGroupName,
+  createArrangement,
+  expandArrangement,
+  getArrangementCues,
+  deleteCueGroup,
+  deleteArrangement,
+  getSelectedArrangement,
+  getSongSections,
+  formatSectionName,
+  transposeChord,
+  transposePresentation,
+  getPresentationKey,
+  getCueChords,
+  getCueTextBlocks,
+  MusicKey,
+  MusicScale,
+  parseChord,
+  formatChord,
+  isNoChord,
+  renderChordsOverLyrics,
+  parseChordPro,
+  splitSlides,
+  parseLyrics,
+  parseSectionHeading,
+  getSectionColor,
+  parseXml,
+  getXmlText,
+  parseOpenLyrics,
+  toOpenLyrics,
+  convertPro6,
+  PresentationBuilder,
+  lintPresentation,
+  diffPresentations,
+  diffWords,
+  formatPresentationDiff,
+  getCuesByGroup,
+  parseSongSelect,
+  isSongSelect,
+  getCueText,
+  getCueNotes,
+  getCueSlide,
+  setProtoDirectory,
+  getProtoDirectory,
+  decodeMessage,
+  encodeMessage,
+  getMessageType,
+  checkRoundTrip,
+  validateFile,
+  findUnknownFields,
+  UNKNOWN_FIELDS_KEY,
+  LATEST_PROTO_VERSION,
+  generateUuid,
+  readWorkspace,
+  writeWorkspace,
+  getWorkspaceScreens,
+  findWorkspaceScreen,
+  getWorkspaceLooks,
+  getLiveLook,
+  getWorkspaceProps,
+  getWorkspaceMessages,
+  getWorkspaceStageLayouts,
+  summarizeWorkspace,
+  type Workspace,
+  type rv,
+} from './lib/index.js';
+import protobuf from 'protobufjs';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
 
-async function test() {
+let failures = 0;
+
+function check(name: string, condition: boolean) {
+  if (condition) {
+    console.log(`  ✓ ${name}`);
+  } else {
+    console.log(`  ✗ ${name}`);
+    failures++;
+  }
+}
+
+/**
+ * Load the schema and check its main types
+ */
+async function testProto() {
   console.log('Loading proto definitions...\n');
-  const root = await loadProtoDefinitions();
+  let root;
+  try {
+    root = await loadProtoDefinitions();
+  } catch (e: any) {
+    console.log(`  ✗ ${e.message}`);
+    failures++;
+    return;
+  }
   
   // Check if we can find key types
   const types = [
@@ -27,10 +140,728 @@ async function test() {
       console.log(`  ✓ ${t} (${fieldCount} fields)`);
     } catch (e: any) {
       console.log(`  ✗ ${t}: ${e.message}`);
+      failures++;
     }
   }
   
   console.log('\n✓ Proto definitions loaded successfully!');
+}
+
+/** A small schema for codec tests that don't need ProPresenter's */
+const TEST_SCHEMA = `
+syntax = "proto3";
+package test;
+message Inner { string name = 1; int32 count = 2; }
+message Outer { string title = 1; bool enabled = 2; Inner inner = 3; repeated Inner items = 4; map<string, Inner> named = 5; }
+`;
+
+/**
+ * Run codec tests against TEST_SCHEMA, loaded through the .proto override
+ */
+async function withTestSchema(run: () => Promise<void>) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'propresenter-test-'));
+  try {
+    await fs.writeFile(path.join(dir, 'test.proto'), TEST_SCHEMA);
+    setProtoDirectory(dir);
+    await run();
+  } finally {
+    setProtoDirectory(null);
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+function testRtf() {
+  console.log('\nChecking RTF parser:');
+
+  // Cocoa RTF as written by ProPresenter on macOS
+  const cocoa = [
+    '{\\rtf1\\ansi\\ansicpg1252\\cocoartf2820',
+    '\\cocoatextscaling0\\cocoaplatform0{\\fonttbl\\f0\\fnil\\fcharset0 Papyrus;}',
+    '{\\colortbl;\\red255\\green255\\blue255;\\red0\\green0\\blue0;}',
+    '{\\*\\expandedcolortbl;;\\cssrgb\\c100000\\c100000\\c100000;\\cssrgb\\c0\\c0\\c0;}',
+    '\\deftab1680',
+    '\\pard\\pardeftab1680\\pardirnatural\\qc\\partightenfactor0',
+    '',
+    '\\f0\\fs214 \\cf1 \\outl0\\strokewidth-120 \\strokec2 Canci\\uc0\\u243 n {\\b nueva}\\',
+    'Gra\\\'e7a}',
+  ].join('\n');
+
+  const doc = parseRtf(cocoa);
+  check('font table', doc.fonts.length === 1 && doc.fonts[0].name === 'Papyrus');
+  check('color table', doc.colors.length === 3 && doc.colors[0] === null && doc.colors[1]?.red === 255);
+  check('unicode and codepage escapes', getRtfText(doc) === 'Canción nueva\nGraça');
+  check('styled runs', doc.paragraphs[0].runs.length === 2 && doc.paragraphs[0].runs[1].format.some(c => c.word === 'b'));
+  check('paragraph format', doc.paragraphs[0].format.some(c => c.word === 'qc'));
+  check('expanded color table kept', serializeRtf(doc).includes('{\\*\\expandedcolortbl;;'));
+
+  const reparsed = parseRtf(serializeRtf(doc));
+  check('round trip text', getRtfText(reparsed) === getRtfText(doc));
+  check('round trip stable', serializeRtf(reparsed) === serializeRtf(doc));
+
+  // Windows RTF
+  check('\\par breaks', rtfToText('{\\rtf1\\ansi\\deff0{\\fonttbl{\\f0 Arial;}}\\f0\\fs144 First line\\par Second line}') === 'First line\nSecond line');
+  check('\\fcharset code page', rtfToText("{\\rtf1\\ansi{\\fonttbl{\\f0\\fnil\\fcharset129 Gulim;}}\\f0 \\'c7\\'d1\\'b1\\'b9}") === '한국');
+  check('\\uc fallback skipped', rtfToText('{\\rtf1\\ansi\\uc1 \\u-10179?\\u-8704?}') === '😀');
+  check('textToRtf round trip', rtfToText(textToRtf('Ação {1}\n\\ 한국')) === 'Ação {1}\n\\ 한국');
+}
+
+function testTextEditing() {
+  console.log('\nChecking style-preserving text edits:');
+
+  const rtf = '{\\rtf1\\ansi{\\fonttbl\\f0\\fnil Avenir;\\f1\\fnil Papyrus;}\\pard\\qc \\f0\\fs120 Amazing {\\f1 grace}\\\nHow sweet}';
+  const doc = setRtfText(parseRtf(rtf), 'Amazing grace\nHow sweet the sound\nThat saved');
+  check('edited text', getRtfText(doc) === 'Amazing grace\nHow sweet the sound\nThat saved');
+  check('styled word kept', doc.paragraphs[0].runs[1]?.text === 'grace' && doc.paragraphs[0].runs[1].format.some(c => c.word === 'f' && c.param === 1));
+  check('inserted text takes preceding style', doc.paragraphs[1].runs.length === 1 && doc.paragraphs[1].runs[0].format.some(c => c.word === 'fs' && c.param === 120));
+  check('paragraph format kept', doc.paragraphs.every(p => p.format.some(c => c.word === 'qc')));
+  check('Cocoa line breaks kept', doc.paragraphs[0].break === 'newline' && doc.paragraphs[1].break === 'newline');
+
+  const element: GraphicsElement = {
+    name: 'Amazing grace\nHow sweet',
+    text: {
+      rtfData: Buffer.from(rtf),
+      attributes: {
+        customAttributes: [
+          { range: { start: 0, end: 8 }, chord: 'G' },
+          { range: { start: 14, end: 23 }, chord: 'C' },
+        ],
+      },
+    },
+  };
+  setElementText(element, 'Oh amazing grace\nHow sweet');
+  const chords = element.text!.attributes!.customAttributes!;
+  check('chords re-anchored', chords[0].range!.start === 0 && chords[1].range!.start === 17 && chords[1].range!.end === 26);
+  check('element name updated', element.name === 'Oh amazing grace\nHow sweet');
+
+  const named: GraphicsElement = { name: 'Translation', text: { rtfData: Buffer.from(rtf) } };
+  setElementText(named, 'Sublime gracia');
+  check('custom element name kept', named.name === 'Translation');
+
+  const presentation: Presentation = {
+    cues: [{
+      actions: [{ slide: { presentation: { baseSlide: { elements: [{ element }, { element: named }] } } as any } }],
+    }],
+  };
+  const slide = presentation.cues![0].actions![0].slide!.presentation!;
+  check('element by name', findSlideElement(slide, 'translation') === named);
+  check('element by index', findSlideElement(slide, 0) === element);
+  const year: GraphicsElement = { name: '2024' };
+  slide.baseSlide!.elements!.push({ element: year });
+  check('numeric name past last index', findSlideElement(slide, 2024) === year && findSlideElement(slide, 5) === null);
+  slide.baseSlide!.elements!.pop();
+  const changed = updatePresentationText(presentation, text => text.toUpperCase(), 'Translation');
+  check('bulk edit by element', changed === 1 && rtfToText(named.text!.rtfData!) === 'SUBLIME GRACIA');
+}
+
+async function testVersionDetection() {
+  console.log('\nChecking version detection:');
+
+  const older = detectFileVersion(await fs.readFile('samples/19bd69e620a22c88_ANGjdJ-t_Build My Life.pro'));
+  check('macOS 18.2 header', formatFileVersion(older) === 'Created with ProPresenter 18.2 (macOS)');
+  check('schema picked', older.protoVersion === '19beta' && !older.newerThanSchema);
+
+  const newer = detectFileVersion(await fs.readFile('samples/19bd69e620a22c88_ANGjdJ97_All Is Well.pro'));
+  check('newer than schema flagged', newer.versionString === '21.0.1' && newer.newerThanSchema);
+
+  const generated = detectFileVersion(await fs.readFile('samples/Test Song.pro'));
+  check('missing header tolerated', generated.version === null && generated.protoVersion === '19beta');
+}
+
+/**
+ * Check the generated types against the schema. The objects below are checked
+ * by `npm run typecheck` against src/generated/types.ts, so a field that's
+ * renamed, retyped or dropped there fails the build; encoding them checks the
+ * schema agrees.
+ */
+async function testGeneratedTypes() {
+  console.log('\nChecking generated types:');
+
+  const presentation: rv.data.Presentation = {
+    uuid: { string: generateUuid().string },
+    name: 'Typed',
+    ccli: { songTitle: 'Typed', copyrightYear: 2024, display: true },
+    cueGroups: [{ group: { name: 'Verse 1', color: { red: 1, green: 0, blue: 0, alpha: 1 } }, cueIdentifiers: [] }],
+    cues: [{ uuid: { string: generateUuid().string }, isEnabled: true, actions: [] }],
+  };
+  const slide: rv.data.PresentationSlide = {
+    baseSlide: { elements: [{ element: { name: 'Lyrics', text: { rtfData: Buffer.from(textToRtf('Typed')) } } }] },
+  };
+  // @ts-expect-error fields missing from the schema are rejected
+  const misspelled: rv.data.Presentation = { title: 'Typed' };
+  // @ts-expect-error unset message fields are undefined, not null
+  const nulled: rv.data.Presentation = { ccli: null };
+
+  try {
+    const bytes = await encodeMessage('rv.data.Presentation', presentation, { protoVersion: LATEST_PROTO_VERSION });
+    const decoded = await decodeMessage<rv.data.Presentation>('rv.data.Presentation', bytes, { protoVersion: LATEST_PROTO_VERSION });
+    check('typed presentation encodes', decoded.name === 'Typed' && decoded.ccli?.copyrightYear === 2024 &&
+      decoded.cueGroups?.[0].group?.name === 'Verse 1' && decoded.cues?.[0].isEnabled === true);
+    const Slide = await getMessageType('rv.data.PresentationSlide', LATEST_PROTO_VERSION);
+    check('typed slide encodes', Slide.verify(slide) === null);
+    check('misspelled field not in schema', !(await getMessageType('rv.data.Presentation', LATEST_PROTO_VERSION)).fields.title);
+  } catch (e: any) {
+    console.log(`    ${e.message}`);
+    check('typed presentation encodes', false);
+  }
+}
+
+async function testProtoDirectory() {
+  console.log('\nChecking .proto directory override:');
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'propresenter-test-'));
+  try {
+    await fs.mkdir(path.join(dir, 'Proto 7.16'));
+    setProtoDirectory(dir);
+    check('versioned folder', getProtoDirectory('7.16') === path.join(dir, 'Proto 7.16'));
+    let error = '';
+    try { getProtoDirectory('19beta'); } catch (e: any) { error = e.message; }
+    check('missing version rejected', error === `No "Proto 19beta" folder or .proto files in ${dir}`);
+  } finally {
+    setProtoDirectory(null);
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function testRoundTrip() {
+  console.log('\nChecking round trips:');
+
+  await withTestSchema(async () => {
+    const options = { protoVersion: '19beta' };
+    const Outer = await getMessageType('test.Outer', '19beta');
+    const bytes = Outer.encode(Outer.create({ inner: { count: 3 }, items: [{ name: 'a' }] })).finish();
+
+    const decoded = await decodeMessage('test.Outer', bytes, options);
+    check('unset fields left out', !('title' in decoded) && !('enabled' in decoded) && decoded.items.length === 1);
+    const encoded = await encodeMessage('test.Outer', decoded, options);
+    check('defaults not written', Buffer.compare(Buffer.from(encoded), Buffer.from(bytes)) === 0);
+
+    const report = await checkRoundTrip(bytes, 'test.Outer', options);
+    check('round trip report', report.bytesIdentical && report.lossless && report.differences.length === 0 &&
+      report.unknownFields.length === 0 && report.encodedSize === bytes.length);
+  });
+
+  for (const file of (await fs.readdir('samples')).filter(f => f.endsWith('.pro'))) {
+    const samplePath = path.join('samples', file);
+    let report;
+    try {
+      report = await validateFile(samplePath);
+    } catch (e: any) {
+      console.log(`    ${file}: ${e.message}`);
+      check(`${file} round trip`, false);
+      continue;
+    }
+    check(`${file} round trip`, report.differences.length === 0 && report.unknownFieldsLost.length === 0);
+    // Files ProPresenter wrote re-encode to the same bytes; ones this library
+    // wrote before may carry default values that are no longer written
+    if (detectFileVersion(await fs.readFile(samplePath)).version !== null) {
+      check(`${file} byte for byte`, report.bytesIdentical);
+    }
+  }
+}
+
+async function testUnknownFields() {
+  console.log('\nChecking unknown field preservation:');
+
+  await withTestSchema(async () => {
+    const options = { protoVersion: '19beta' };
+    // Outer { title, inner { name, #9 = 42 }, named { "a": { name, #9 = 42 } }, #15 = "keep" }:
+    // fields 9 and 15 aren't in the schema
+    const inner = protobuf.Writer.create().uint32(10).string('n').uint32(9 << 3).uint32(42).finish();
+    const entry = protobuf.Writer.create().uint32(10).string('a').uint32(18).bytes(inner).finish();
+    const bytes = protobuf.Writer.create()
+      .uint32(10).string('Title')
+      .uint32(26).bytes(inner)
+      .uint32(42).bytes(entry)
+      .uint32((15 << 3) | 2).string('keep')
+      .finish();
+
+    const Outer = await getMessageType('test.Outer', '19beta');
+    const unknown = findUnknownFields(Outer, bytes);
+    check('unknown fields found', unknown.map(f => `${f.path}#${f.fieldNumber}`).join() === 'inner#9,named[a]#9,#15');
+
+    const decoded = await decodeMessage('test.Outer', bytes, options);
+    check('unknown fields attached', decoded[UNKNOWN_FIELDS_KEY]?.length === 1 && decoded.inner[UNKNOWN_FIELDS_KEY]?.length === 1 &&
+      decoded.named.a[UNKNOWN_FIELDS_KEY]?.length === 1);
+    const encoded = await encodeMessage('test.Outer', decoded, options);
+    check('unknown fields written back', Buffer.compare(Buffer.from(encoded), Buffer.from(bytes)) === 0);
+
+    decoded.title = 'Renamed';
+    const edited = await decodeMessage('test.Outer', await encodeMessage('test.Outer', decoded, options), options);
+    check('kept through edits', edited.title === 'Renamed' &&
+      findUnknownFields(Outer, await encodeMessage('test.Outer', edited, options)).length === 3);
+
+    const dropped = await encodeMessage('test.Outer', decoded, { ...options, preserveUnknownFields: false });
+    check('dropped on request', findUnknownFields(Outer, dropped).length === 0);
+  });
+}
+
+async function testWorkspace() {
+  console.log('\nChecking workspaces:');
+
+  const file = path.join(os.tmpdir(), `propresenter-test-${process.pid}.proworkspace`);
+  const workspace: Workspace = {
+    proScreens: [{ uuid: generateUuid(), name: 'Main' }, { uuid: generateUuid(), name: 'Stage' }],
+    audienceLooks: [{ uuid: generateUuid(), name: 'Default' }],
+    liveAudienceLook: { uuid: generateUuid(), name: 'Default' },
+  };
+  try {
+    await writeWorkspace(file, workspace);
+    const bytes = await fs.readFile(file);
+    const read = await readWorkspace(file);
+    check('screens', getWorkspaceScreens(read).map(s => s.name).join() === 'Main,Stage' &&
+      findWorkspaceScreen(read, 'stage') === read.proScreens![1]);
+    check('looks', getWorkspaceLooks(read)[0]?.name === 'Default' && getLiveLook(read)?.name === 'Default');
+    check('no props, messages or stage layouts', (await getWorkspaceProps(read)).length === 0 &&
+      (await getWorkspaceMessages(read)).length === 0 && (await getWorkspaceStageLayouts(read)).length === 0);
+    check('summary', (await summarizeWorkspace(read)).map(s => s.field).join() === 'proScreens,audienceLooks,liveAudienceLook');
+
+    await writeWorkspace(file, read);
+    check('written back unchanged', Buffer.compare(await fs.readFile(file), bytes) === 0);
+  } catch (e: any) {
+    console.log(`    ${e.message}`);
+    check('workspace round trip', false);
+  } finally {
+    await fs.rm(file, { force: true });
+  }
+}
+
+function testPlaylists() {
+  console.log('\nChecking playlists:');
+
+  const document = createPlaylist('Sunday', [{ header: 'Worship' }, 'samples/Test Song.pro', { placeholder: 'Sermon' }]);
+  const playlist = getPlaylist(document, 'sunday')!;
+  const items = listPlaylistItems(playlist);
+  check('item types', items.map(i => i.type).join() === 'header,presentation,placeholder');
+  check('presentation path recorded', items[1].name === 'Test Song' && !!items[1].documentPath?.endsWith('Test Song.pro'));
+
+  movePlaylistItem(playlist, 'sermon', 0);
+  removePlaylistItem(playlist, 'Worship');
+  check('items reordered', listPlaylistItems(playlist).map(i => i.name).join() === 'Sermon,Test Song');
+
+  const bundle = writeZip([{ name: 'data', data: Buffer.from('doc') }, { name: 'Media/a.jpg', data: Buffer.alloc(3) }]);
+  const { data, files } = readPlaylistBundle(bundle);
+  check('bundle read', Buffer.from(data).toString() === 'doc' && files?.[0].name === 'Media/a.jpg');
+  check('plain document read', readPlaylistBundle(Buffer.from('doc')).files === null);
+  check('zip round trip', readZip(bundle).length === 2);
+}
+
+function testArrangements() {
+  console.log('\nChecking arrangements:');
+
+  const presentation = createPresentation({
+    title: 'Test',
+    sections: [
+      { name: 'Verse 1', slides: ['v1a', 'v1b'] },
+      { name: 'Chorus', slides: ['c'] },
+      { name: 'Verse 2', slides: ['v2'] },
+      { name: 'Pre-Chorus', slides: ['pc'] },
+    ],
+  });
+  check('group abbreviations', abbreviateGroupName('Verse 1') === 'V1' && abbreviateGroupName('Pre-Chorus') === 'PC');
+
+  const short = createArrangement(presentation, 'Short', ['V1', 'chorus', 'V2', 'C', 'C']);
+  const order = expandArrangement(presentation, short).map(s => s.name);
+  check('arrangement expanded with repeats', order.join() === 'Verse 1,Chorus,Verse 2,Chorus,Chorus');
+  check('arrangement cues in order', getArrangementCues(presentation, short).length === 6);
+
+  const sung = getSongSections(presentation, { arrangement: 'short' }).map(formatSectionName);
+  check('repeats collapsed', sung.join() === 'Verse 1,Chorus,Verse 2,Chorus x2');
+  const defined = getSongSections(presentation, { arrangement: false }).map(formatSectionName);
+  check('group order without arrangement', defined.join() === 'Verse 1,Chorus,Verse 2,Pre-Chorus');
+  createArrangement(presentation, 'Empty', []);
+  let emptyError = '';
+  try {
+    getSongSections(presentation, { arrangement: 'empty' });
+  } catch (error) {
+    emptyError = (error as Error).message;
+  }
+  check('empty arrangement reported', emptyError === 'Arrangement is empty: Empty');
+
+  deleteCueGroup(presentation, 'Chorus');
+  check('deleted group leaves arrangements', expandArrangement(presentation, short).map(s => s.name).join() === 'Verse 1,Verse 2');
+  check('deleted group removes its cues', presentation.cues!.length === 4);
+
+  deleteArrangement(presentation, 'default');
+  check('selection moves on delete', getSelectedArrangement(presentation)?.name === 'Short');
+}
+
+function testTranspose() {
+  console.log('\nChecking transposition:');
+
+  check('plain chords', transposeChord('G', 3, 'Bb') === 'Bb' && transposeChord('Em7', 2, 'A') === 'F#m7');
+  check('slash chords', transposeChord('D/F#', 3, 'Bb') === 'F/A' && transposeChord('F#m7b5/C#', 2, 'B') === 'G#m7b5/D#');
+  check('flat keys spelled with flats', transposeChord('C#', 1, 'Eb') === 'D' && transposeChord('G#', 2, 'F') === 'Bb');
+  check('non-chords unchanged', transposeChord('N.C.', 5, 'C') === 'N.C.');
+
+  const presentation = createPresentation({
+    title: 'Test',
+    musicKey: { key: MusicKey.G },
+    sections: [{ name: 'Verse', slides: [{ text: 'Amazing grace', chords: [{ position: 0, chord: 'G' }, { position: 8, chord: 'D/F#' }] }] }],
+  });
+  check('key read from presentation', getPresentationKey(presentation) === 'G');
+
+  const result = transposePresentation(presentation, 'Bb');
+  const chords = getCueChords(presentation.cues![0]).map(c => c.chord);
+  check('presentation chords transposed', result.semitones === 3 && chords.join() === 'Bb,F/A');
+  check('user key updated', getPresentationKey(presentation) === 'Bb' && presentation.music?.userMusicKey === 'Bb');
+  // A flat major is all zero values, so it decodes to an empty scale
+  check('unset key read as zero value', getPresentationKey({ music: { user: {} } }) === 'Ab');
+}
+
+function testChordParsing() {
+  console.log('\nChecking chord parsing:');
+
+  const chord = parseChord('F#m7b5/C#')!;
+  check('chord parts', chord.root === 'F#' && chord.quality === 'minor' && chord.extensions.join() === '7,b5' && chord.bass === 'C#');
+  check('qualities', parseChord('Cmaj7')?.quality === 'major' && parseChord('Bdim7')?.quality === 'diminished' && parseChord('G5')?.quality === 'power');
+  check('six-nine chords', parseChord('C6/9')?.extensions.join('') === '6/9' && !parseChord('C6/9')?.bass);
+  check('unparseable chords', parseChord('H7') === null && parseChord('Cx') === null && isNoChord('N.C.'));
+
+  const nashville = ['G', 'Em7/B', 'Cmaj7', 'D7', 'Bb'].map(c => formatChord(parseChord(c)!, 'nashville', 'G'));
+  check('nashville numbers', nashville.join() === '1,6m7/3,4maj7,5(7),b3');
+  const roman = ['G', 'Em7', 'F#dim', 'Bb'].map(c => formatChord(parseChord(c)!, 'roman', 'G'));
+  check('roman numerals', roman.join() === 'I,vi7,vii°,bIII');
+
+  const at = (chord: string, start: number) => ({ chord, position: { start, end: start } });
+  const sheet = renderChordsOverLyrics('Amazing grace\nhow sweet', [at('G', 0), at('C', 8), at('D', 14), at('G7', 18), at('Em', 30)]);
+  check('chords above their syllables', sheet === 'G       C\nAmazing grace\nD   G7   Em\nhow sweet');
+  const crowded = renderChordsOverLyrics('Sound', [at('Cmaj7', 0), at('G', 1)]);
+  check('lyrics widened for long chords', crowded === 'Cmaj7 G\nS-----ound');
+
+  // Chord positions count within their own element, e.g. a translation
+  const element = (text: string, chord: string, start: number) => ({ element: { text: {
+    rtfData: Buffer.from(textToRtf(text)),
+    attributes: { customAttributes: [{ range: { start, end: start + 1 }, chord }] },
+  } } });
+  const cue = { actions: [{ slide: { presentation: { baseSlide: { elements: [element('Amazing grace', 'G', 8), element('Sublime gracia', 'D', 8)] } } } }] };
+  const blocks = getCueTextBlocks(cue);
+  check('chords per text element', blocks.length === 2 &&
+    blocks.map(b => renderChordsOverLyrics(b.text, b.chords)).join('\n') === '        G\nAmazing grace\n        D\nSublime gracia');
+}
+
+function testChordProImport() {
+  console.log('\nChecking ChordPro import:');
+
+  const slides = splitSlides([{ text: 'a' }, { text: 'b', chords: [{ position: 0, chord: 'G' }] }, { text: '' }, { text: 'c' }], { linesPerSlide: 1 });
+  check('slides split', slides.map(s => s.text).join() === 'a,b,c' && slides[1].chords?.[0].position === 0);
+
+  const song = parseChordPro([
+    '{title: Amazing Grace}',
+    '{key: Em}',
+    '{ccli: 22025}',
+    '{copyright: 2004 Thankyou Music}',
+    '{comment: Verse 1}',
+    'A[G]mazing grace how [C]sweet',
+    'the [G]sound',
+    '',
+    'That saved a wretch',
+    '{soc}',
+    '[C]My chains are gone',
+    '{eoc}',
+    'Loose line',
+  ].join('\n'));
+  check('metadata', song.title === 'Amazing Grace' && song.ccliNumber === 22025 && song.copyrightYear === 2004 && song.publisher === 'Thankyou Music');
+  check('key', song.musicKey?.key === MusicKey.E && song.musicKey?.scale === MusicScale.MINOR);
+  check('sections', song.sections.map(s => `${s.name}:${s.slides.length}`).join() === 'Verse 1:2,Chorus:1,Verse 2:1');
+
+  const first = song.sections[0].slides[0] as { text: string; chords: { position: number; chord: string }[] };
+  check('inline chords', first.text === 'Amazing grace how sweet\nthe sound' && first.chords.map(c => `${c.chord}@${c.position}`).join() === 'G@1,C@18,G@28');
+}
+
+function testLyricsImport() {
+  console.log('\nChecking lyrics import:');
+
+  check('headings', parseSectionHeading('[Chorus x2]')?.repeat === 2 && parseSectionHeading('REFRAIN:')?.name === 'Refrain' && parseSectionHeading('Strophe 2')?.name === 'Strophe 2');
+  check('lyrics are not headings', parseSectionHeading('Amazing grace') === null && parseSectionHeading('Verse of my heart') === null);
+  check('bare section words are lyrics', ['Final', 'Coro', 'Tag', 'Vers', 'Pont', 'chorus'].every(line => parseSectionHeading(line) === null));
+  check('marked section words are headings', parseSectionHeading('Coro:')?.name === 'Coro' && parseSectionHeading('FINAL')?.name === 'Final' &&
+    parseSectionHeading('Vers 2')?.name === 'Vers 2' && parseSectionHeading('Tag x2')?.repeat === 2);
+  const ending = parseLyrics('[Verse 1]\nOh what a day\nFinal');
+  check('lyric line kept', ending.sections.map(s => `${s.name}:${s.slides.length}`).join() === 'Verse 1:1' &&
+    JSON.stringify(ending.sections[0].slides).includes('Final'));
+  check('custom headings', parseSectionHeading('V1.', [/^(V\d)\.$/])?.name === 'V1');
+  check('colors by section type', getSectionColor('Chorus 2') === getSectionColor('Refrain') && getSectionColor('Verse 1') !== getSectionColor('Chorus'));
+
+  const song = parseLyrics(['Amazing grace', '', 'How sweet', '', '[Chorus]', 'Chains gone', '', '[Verse 2]', 'Twas grace', '', '[Chorus]', 'Chains gone', '', '[Chorus x2]'].join('\n'));
+  check('sections and slides', song.sections.map(s => `${s.name}:${s.slides.length}`).join() === 'Verse 1:2,Chorus:1,Verse 2:1');
+  check('repeats arranged, not duplicated', song.arrangement?.join() === '0,1,2,1,1,1');
+}
+
+function testOpenLyrics() {
+  console.log('\nChecking OpenLyrics:');
+
+  const xml = parseXml('<?xml version="1.0"?><a x="1 &amp; 2"><!-- c --><b>Tom &lt;3<br/></b><![CDATA[<raw>]]></a>');
+  check('xml parsed', xml.attributes.x === '1 & 2' && getXmlText(xml) === 'Tom <3<raw>');
+
+  const song = parseOpenLyrics([
+    '<song xmlns="http://openlyrics.info/namespace/2009/song" version="0.9">',
+    '<properties><titles><title>Amazing Grace</title></titles><authors><author>John Newton</author></authors>',
+    '<copyright>1779 Public Domain</copyright><ccliNo>22025</ccliNo><verseOrder>v1 c1 v1</verseOrder></properties>',
+    '<lyrics><verse name="v1"><lines>A<chord name="G"/>mazing grace<br/>',
+    '  how <chord root="C" structure="dom7"/>sweet</lines><lines>I once</lines></verse>',
+    '<verse name="c1"><lines>Chains gone</lines></verse></lyrics></song>',
+  ].join('\n'));
+  check('properties', song.title === 'Amazing Grace' && song.ccliNumber === 22025 && song.ccliAuthor === 'John Newton' && song.copyrightYear === 1779);
+  check('verses', song.sections.map(s => `${s.name}:${s.slides.length}`).join() === 'Verse 1:2,Chorus:1' && song.arrangement?.join() === '0,1,0');
+
+  const slide = song.sections[0].slides[0] as { text: string; chords: { position: number; chord: string }[] };
+  check('chords', slide.text === 'Amazing grace\nhow sweet' && slide.chords.map(c => `${c.chord}@${c.position}`).join() === 'G@1,C7@18');
+
+  const exported = toOpenLyrics(createPresentation(song));
+  check('export', exported.includes('<verseOrder>v1 c1 v1</verseOrder>') && exported.includes('A<chord name="G"/>mazing grace<br/>how <chord name="C7"/>sweet'));
+  check('round trip', JSON.stringify(parseOpenLyrics(exported).sections) === JSON.stringify(song.sections));
+
+  const twoChoruses = toOpenLyrics(createPresentation({
+    title: 'Two Choruses',
+    sections: [{ name: 'Chorus', slides: ['First'] }, { name: 'Verse 1', slides: ['Verse'] }, { name: 'Chorus', slides: ['Second'] }],
+    arrangement: [0, 1, 2, 0],
+  }));
+  check('groups sharing a name kept apart', twoChoruses.includes('<verseOrder>c1 v1 c2 c1</verseOrder>') &&
+    twoChoruses.includes('<verse name="c1">\n      <lines>First</lines>') && twoChoruses.includes('<verse name="c2">\n      <lines>Second</lines>'));
+}
+
+function testPro6() {
+  console.log('\nChecking ProPresenter 6 conversion:');
+
+  const rtf = (text: string) => Buffer.from(textToRtf(text)).toString('base64');
+  const textElement = (text: string) => [
+    '<RVTextElement displayName="Lyrics" UUID="E1">',
+    '<RVRect3D rvXMLIvarName="position">{40 60 0 1200 600}</RVRect3D>',
+    `<NSString rvXMLIvarName="RTFData">${rtf(text)}</NSString>`,
+    '</RVTextElement>',
+  ].join('');
+
+  const { presentation, warnings } = convertPro6([
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<RVPresentationDocument width="1280" height="720" CCLISongTitle="Amazing Grace" CCLIAuthor="John Newton"',
+    ' CCLISongNumber="22025" CCLICopyrightYear="1779" CCLIDisplay="false" category="Song" selectedArrangementID="A1">',
+    '<array rvXMLIvarName="groups">',
+    '<RVSlideGrouping name="Verse 1" uuid="G1" color="0 1 0 1"><array rvXMLIvarName="slides">',
+    '<RVDisplaySlide UUID="S1" label="Start" notes="Slowly" drawingBackgroundColor="true" backgroundColor="0.5 0 0 1">',
+    `<array rvXMLIvarName="displayElements">${textElement('Amazing grace\nHow sweet the sound')}<RVImageElement/>`,
+    '<RVTextElement displayName="Translation" UUID="E2">',
+    `<NSString rvXMLIvarName="PlainText">${Buffer.from('Sublime gracia').toString('base64')}</NSString>`,
+    '</RVTextElement></array>',
+    '</RVDisplaySlide></array></RVSlideGrouping>',
+    '<RVSlideGrouping name="Chorus" uuid="G2" color=""><array rvXMLIvarName="slides">',
+    '<RVDisplaySlide UUID="S2" enabled="false">',
+    '<RVMediaCue rvXMLIvarName="backgroundMediaCue"><RVImageElement source="/Media/Sky%20Blue.jpg"/></RVMediaCue>',
+    `<array rvXMLIvarName="displayElements">${textElement('My chains are gone')}</array>`,
+    '</RVDisplaySlide></array></RVSlideGrouping>',
+    '</array>',
+    '<array rvXMLIvarName="arrangements"><RVSongArrangement name="Sunday" uuid="A1">',
+    '<array rvXMLIvarName="groupIDs"><NSString>G1</NSString><NSString>G2</NSString><NSString>G1</NSString><NSString>G9</NSString></array>',
+    '</RVSongArrangement></array>',
+    '</RVPresentationDocument>',
+  ].join('\n'));
+
+  const [verse, chorus] = presentation.cues!;
+  check('groups', presentation.cueGroups!.map(g => `${g.group!.name}:${g.group!.uuid!.string}`).join() === 'Verse 1:G1,Chorus:G2');
+  check('ccli', presentation.name === 'Amazing Grace' && presentation.ccli?.songNumber === 22025 && presentation.ccli?.display === false);
+  check('slides', verse.uuid!.string === 'S1' && verse.name === 'Start' && chorus.isEnabled === false);
+  check('text', getCueText(verse) === 'Amazing grace\nHow sweet the sound\nSublime gracia' && getCueNotes(verse) === 'Slowly');
+
+  const slide = getCueSlide(verse)!.baseSlide!;
+  const bounds = slide.elements![0].element!.bounds;
+  const translation = slide.elements![1].element!;
+  check('plain text element', translation.name === 'Translation' && rtfToText(translation.text!.rtfData!) === 'Sublime gracia');
+  check('geometry', slide.size?.width === 1280 && bounds?.origin?.x === 40 && bounds?.size?.height === 600);
+  check('background', slide.drawsBackgroundColor === true && slide.backgroundColor?.red === 0.5 && getCueSlide(chorus)!.baseSlide!.drawsBackgroundColor === false);
+  check('background media', chorus.actions![0].media?.element?.url?.absoluteString === 'file:///Media/Sky%20Blue.jpg');
+
+  const arrangement = presentation.arrangements![0];
+  check('arrangement', arrangement.name === 'Sunday' && presentation.selectedArrangement?.string === 'A1' &&
+    arrangement.groupIdentifiers!.map(id => id.string).join() === 'G1,G2,G1');
+  check('warnings', warnings.length === 2 && warnings[0] === 'Verse 1, slide 1: RVImageElement not converted');
+}
+
+function testSongSelect() {
+  console.log('\nChecking SongSelect import:');
+
+  const text = [
+    '\uFEFFAmazing Grace (My Chains Are Gone)',
+    '',
+    'Verse 1',
+    'Amazing grace how sweet the sound',
+    'That saved a wretch like me',
+    '',
+    'Chorus',
+    'My chains are gone',
+    '',
+    'Misc 1',
+    'Forever',
+    '',
+    'CCLI Song # 4768151',
+    'Chris Tomlin | John Newton | Louie Giglio',
+    '© 2006 sixsteps Music (Admin. by Capitol CMG Publishing)',
+    'worshiptogether.com songs',
+    'For use solely with the SongSelect® Terms of Use.  All rights reserved. www.ccli.com',
+    'CCLI License # 1234567',
+  ].join('\r\n');
+  const song = parseSongSelect(text);
+  check('detected', isSongSelect(text) && !isSongSelect('Verse 1\nAmazing grace'));
+  check('txt lyrics', song.title === 'Amazing Grace (My Chains Are Gone)' &&
+    song.sections.map(s => `${s.name}:${s.slides.length}`).join() === 'Verse 1:1,Chorus:1,Misc 1:1');
+  check('txt ccli', song.ccliNumber === 4768151 && song.ccliAuthor === 'Chris Tomlin, John Newton, Louie Giglio' &&
+    song.copyrightYear === 2006 && song.publisher === 'sixsteps Music (Admin. by Capitol CMG Publishing) | worshiptogether.com songs');
+
+  const usr = parseSongSelect([
+    '[File]',
+    'Type=SongSelect Import File',
+    'Version=3.0',
+    '[S A22025]',
+    'Title=Amazing Grace',
+    'Author=Newton, John | Excell, Edwin Othello',
+    'Copyright=Public Domain',
+    'Keys=G',
+    'Fields=Verse 1/tVerse 2',
+    'Words=Amazing grace/nHow sweet the sound/tTwas grace/nThat taught',
+  ].join('\n'));
+  check('usr', usr.title === 'Amazing Grace' && usr.ccliNumber === 22025 && usr.ccliAuthor === 'John Newton, Edwin Othello Excell' &&
+    usr.publisher === 'Public Domain' && usr.musicKey?.key === MusicKey.G);
+  check('usr fields', usr.sections.map(s => `${s.name}:${(s.slides[0] as { text: string }).text}`).join('|') ===
+    'Verse 1:Amazing grace\nHow sweet the sound|Verse 2:Twas grace\nThat taught');
+}
+
+function testBuilder() {
+  console.log('\nChecking presentation builder:');
+
+  const builder = PresentationBuilder.create('Built')
+    .addGroup('Verse 1', ['One', 'Two'])
+    .addGroup('Chorus', ['Refrain'])
+    .arrange('Default', ['V1', 'C', 'V1']);
+  const presentation = builder.build();
+  const texts = (ref: string) => builder.getSlides(ref).map(cue => getCueText(cue)).join();
+  const consistent = () => {
+    const ids = presentation.cueGroups!.flatMap(g => g.cueIdentifiers!.map(id => id.string));
+    return ids.join() === presentation.cues!.map(c => c.uuid!.string).join();
+  };
+  check('groups and arrangement', texts('Verse 1') === 'One,Two' && consistent() &&
+    expandArrangement(presentation, getSelectedArrangement(presentation)!).map(s => s.name).join() === 'Verse 1,Chorus,Verse 1');
+
+  builder.insertSlide('V1', 1, 'One and a half').moveSlide('V1', 0, 0, 'Chorus').duplicateSlide('Chorus', 1);
+  const [original, copy] = builder.getSlides('Chorus').slice(1);
+  check('slides edited', texts('Verse 1') === 'One and a half,Two' && texts('Chorus') === 'One,Refrain,Refrain' && consistent());
+  check('copy has new uuids', copy.uuid!.string !== original.uuid!.string &&
+    getCueSlide(copy)!.baseSlide!.uuid!.string !== getCueSlide(original)!.baseSlide!.uuid!.string);
+
+  builder.deleteSlide('Chorus', 0).moveGroup('Chorus', 0).setBackground(null, 'Chorus', 0).deleteGroup('Verse 1');
+  check('groups edited', texts('Chorus') === 'Refrain,Refrain' && presentation.cues!.length === 2 && consistent() &&
+    presentation.arrangements![0].groupIdentifiers!.length === 1);
+  check('background', getCueSlide(builder.getSlide('C', 0))!.baseSlide!.drawsBackgroundColor === false);
+
+  let error = '';
+  try { builder.moveSlide('Chorus', 5, 0); } catch (e: any) { error = e.message; }
+  check('bad index rejected', error === 'Slide index 5 out of range for group "Chorus" (0-1)' && consistent());
+}
+
+function testLint() {
+  console.log('\nChecking structural lint:');
+
+  const presentation = createPresentation({
+    title: 'Lint',
+    sections: [{ name: 'Verse 1', slides: ['One', 'Two'] }, { name: 'Chorus', slides: ['Three'] }],
+  });
+  check('clean presentation', lintPresentation(presentation).issues.length === 0);
+
+  const [first, second, third] = presentation.cues!;
+  const element = (cue: typeof first) => getCueSlide(cue)!.baseSlide!.elements![0].element!;
+  presentation.cueGroups![0].cueIdentifiers!.push({ string: 'E3B0C442-98FC-4C14-9AFB-F4C8996FB924' });
+  presentation.cueGroups![1].cueIdentifiers = [];
+  presentation.arrangements![0].groupIdentifiers!.push({ string: 'gone' });
+  presentation.selectedArrangement = { string: 'A6F1F1B6-1C4B-4E0E-9B7E-0F7B4E3C2D1A' };
+  element(second).uuid = { string: element(first).uuid!.string! };
+  getCueSlide(second)!.baseSlide!.elementBuildOrder = [{ string: element(first).uuid!.string! }];
+  element(first).text!.attributes!.customAttributes!.push({ range: { start: 2, end: 40 } });
+
+  let error = '';
+  try { getCuesByGroup(presentation, { strict: true }); } catch (e: any) { error = e.message; }
+  check('strict grouping throws', error.startsWith('Group "Verse 1" refers to missing cue'));
+
+  const report = lintPresentation(presentation);
+  const codes = report.issues.map(issue => issue.code).sort().join();
+  check('issues found', codes === 'attribute-range,duplicate-uuid,missing-arrangement,missing-cue,missing-group,orphan-cue' &&
+    report.errors === 5 && report.warnings === 1 && report.fixed === 0);
+  check('issue paths', report.issues.some(issue => issue.path === 'cueGroups[0].cueIdentifiers[2]') &&
+    report.issues.find(issue => issue.code === 'orphan-cue')?.message === `Cue "${third.name}" is in no group`);
+
+  const fixed = lintPresentation(presentation, { fix: true });
+  const after = lintPresentation(presentation);
+  check('fixed', fixed.fixed === 5 && after.issues.map(issue => issue.code).join() === 'orphan-cue' &&
+    presentation.selectedArrangement?.string === presentation.arrangements![0].uuid!.string &&
+    element(first).text!.attributes!.customAttributes!.at(-1)!.range!.end === 3);
+  check('references remapped', element(second).uuid!.string !== element(first).uuid!.string &&
+    getCueSlide(second)!.baseSlide!.elementBuildOrder![0].string === element(second).uuid!.string);
+
+  presentation.uuid = { string: 'not-a-uuid' };
+  getCueSlide(third)!.baseSlide!.elements!.push({ element: { uuid: { string: element(third).uuid!.string! } } });
+  const referenced = lintPresentation(presentation, { fix: true });
+  check('referenced UUIDs only reported', referenced.fixed === 0 && presentation.uuid.string === 'not-a-uuid' &&
+    referenced.issues.filter(issue => issue.code.endsWith('uuid')).map(issue => issue.code).join() === 'invalid-uuid,duplicate-uuid');
+}
+
+function testDiff() {
+  console.log('\nChecking presentation diff:');
+
+  check('word diff', JSON.stringify(diffWords('How sweet the sound', 'How great the sound')) === JSON.stringify([
+    { type: 'equal', text: 'How ' }, { type: 'removed', text: 'sweet' },
+    { type: 'added', text: 'great' }, { type: 'equal', text: ' the sound' },
+  ]));
+
+  const before = PresentationBuilder.create('Diff')
+    .addGroup('Verse 1', ['Amazing grace how sweet the sound', 'That saved a wretch like me'])
+    .addGroup('Chorus', ['My chains are gone'])
+    .arrange('Default', ['V1', 'C'])
+    .build();
+  const builder = new PresentationBuilder(structuredClone(before));
+  check('identical', diffPresentations(before, builder.build()).identical);
+
+  builder.setSlideText('V1', 0, 'Amazing grace how great the sound')
+    .moveSlide('V1', 1, 0)
+    .addGroup('Bridge', ['Unending love'])
+    .renameGroup('Chorus', 'Refrain')
+    .arrange('Default', ['V1', 'Refrain', 'Bridge', 'Refrain']);
+  (builder.build().ccli ||= {}).songNumber = 22025;
+
+  const diff = diffPresentations(before, builder.build());
+  const types = diff.changes.map(change => change.type).join();
+  check('changes found', types === 'metadata,group-renamed,group-added,slide-text,slide-added,slide-moved,arrangement-order');
+  const text = diff.changes.find(change => change.type === 'slide-text')!;
+  check('text change', text.subject === 'Verse 1, slide 2' &&
+    text.words!.filter(word => word.type !== 'equal').map(word => word.text).join() === 'sweet,great');
+  check('arrangement change', JSON.stringify(diff.changes.at(-1)!.after) === '["Verse 1","Refrain","Bridge","Refrain"]');
+  check('formatted', formatPresentationDiff(diff).includes('    Amazing grace how [-sweet-]{+great+} the sound') &&
+    formatPresentationDiff(diff).includes('~ ccli.songNumber: 0 → 22025'));
+}
+
+async function test() {
+  await testProto();
+  testRtf();
+  testTextEditing();
+  await testVersionDetection();
+  await testGeneratedTypes();
+  await testProtoDirectory();
+  await testRoundTrip();
+  await testUnknownFields();
+  testPlaylists();
+  await testWorkspace();
+  testArrangements();
+  testTranspose();
+  testChordParsing();
+  testChordProImport();
+  testLyricsImport();
+  testOpenLyrics();
+  testPro6();
+  testSongSelect();
+  testBuilder();
+  testLint();
+  testDiff();
+
+  if (failures > 0) {
+    console.log(`\n✗ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+
   console.log('\nTo test with a real file, run:');
   console.log('  npx tsx src/cli.ts info <path-to-file.pro>');
 }